@@ -28,9 +28,16 @@
 // import Monocle classes
 import { Camera,
          CameraController,
+         CameraPool,
          CameraSource,
+         CameraStatus,
+         ControllerIdentity,
          MonocleClient,
-         PTZControllerService} from "./monocle";
+         MqttBridge,
+         OnvifSimulator,
+         PresetTour,
+         PTZControllerService,
+         TourController} from "./monocle";
 
 // import 'fs-extra' library (https://github.com/jprichardson/node-fs-extra)
 import * as fs from 'fs-extra';
@@ -67,15 +74,50 @@ if(!config["monocle-api-token"]){
     process.exit(1);
 }
 
+// validate that the continuous move timeout is a whole number of seconds; cameras reject fractions
+if(config["ptz-move-timeout"] !== undefined && !(Number.isInteger(config["ptz-move-timeout"]) && config["ptz-move-timeout"] >= 1)){
+    console.error("INVALID 'ptz-move-timeout' attribute in 'config.json' FILE (must be a whole number of seconds, at least 1)!; ABORTING PROGRAM");
+    process.exit(1);
+}
+
 /**
  * **************************************************************************
- * CREATE MONOCLE CLIENT, PTZ SERVICE and CAMERA CONTROLLER INSTANCES
+ * CREATE MONOCLE CLIENT, PTZ SERVICE, CAMERA POOL and TOUR INSTANCES
  * **************************************************************************
  */
 
 const monocle = new MonocleClient(config);
 const ptzService = new PTZControllerService(config);
-const cameraController = new CameraController(config);
+const cameraPool = new CameraPool(config);
+const tourController = new TourController(config);
+const mqttBridge = new MqttBridge(config);
+const onvifSimulator = new OnvifSimulator(config);
+
+/**
+ * Get the pooled camera controller for the requested camera; if no
+ * camera is specified, then the active camera controller is returned.
+ * @param {string} camera : (optional) camera source unique identifier
+ * @return {Promise<CameraController>}
+ */
+function controller(camera?:string):Promise<CameraController>{
+    let controller = cameraPool.controller(camera);
+    if(!controller)
+        return Promise.reject(new Error("Camera is not available for control: " + (camera || "no active camera")));
+    return Promise.resolve(controller);
+}
+
+/**
+ * Get the pooled camera controller for a manual PTZ command; any
+ * preset tour running on the camera is cancelled first.
+ * @param {string} camera : (optional) camera source unique identifier
+ * @return {Promise<CameraController>}
+ */
+function manualControl(camera?:string):Promise<CameraController>{
+    return controller(camera).then((c)=>{
+        tourController.stop(c.camera().uuid);
+        return c;
+    });
+}
 
 /**
  * **************************************************************************
@@ -119,69 +161,247 @@ ptzService.on("disconnected", (client:any)=> {
     console.log("[PTZ Controller Service  - Client Disconnected]" ,client);
 });
 
-ptzService.on("stop", (client:any)=> {
+ptzService.on("request", (client:any, method:string, url:string)=> {
+    console.log("[PTZ Controller Service  - HTTP Request]", client, method, url);
+});
+
+ptzService.on("authenticated", (client:any, identity:ControllerIdentity)=> {
+    console.log("[PTZ Controller Service  - Client Authenticated]", client, identity.name, identity.role);
+});
+
+ptzService.on("denied", (client:any, command:string, reason:string)=> {
+    console.error("[PTZ Controller Service  - Command Denied]", client, command, reason);
+});
+
+ptzService.on("unauthorized", (client:any, reason:string)=> {
+    console.error("[PTZ Controller Service  - Client Unauthorized]", client, reason);
+});
+
+ptzService.on("pairing", (code:string, expires:Date)=> {
+    console.log("-------------------------------------------------");
+    console.log("PTZ CONTROLLER PAIRING CODE: ", code);
+    console.log("(valid until " + expires.toLocaleTimeString() + ")");
+    console.log("-------------------------------------------------");
+});
+
+ptzService.on("paired", (client:any, identity:ControllerIdentity)=> {
+    console.log("[PTZ Controller Service  - Controller Paired]", client, identity.name, identity.id);
+});
+
+ptzService.on("revoked", (id:string)=> {
+    console.log("[PTZ Controller Service  - Controller Revoked]", id);
+});
+
+ptzService.on("assigned", (id:string, identity:ControllerIdentity)=> {
+    console.log("[PTZ Controller Service  - Controller Role Assigned]", id, identity.role, identity.cameras);
+});
+
+ptzService.on("stop", (client:any, camera:string, reply:Function)=> {
     console.log("[PTZ Controller Service  - STOP]", client);
-    cameraController.stop().then(()=>{
+    manualControl(camera).then((c)=>c.stop()).then(()=>{
         console.log("[PTZ Controller Service  - STOPPED]");
+        reply();
     }).catch((err:Error)=>{
         console.error("[PTZ Controller Service  - STOP ERROR]", err);
+        reply(err);
     });
 });
 
-ptzService.on("home", (client:any)=> {
+ptzService.on("home", (client:any, camera:string, reply:Function)=> {
     console.log("[PTZ Controller Service  - HOME]", client);
-    cameraController.gotoHome().then(()=>{
+    manualControl(camera).then((c)=>c.gotoHome()).then(()=>{
         console.log("[PTZ Controller Service  - HOME]");
+        reply();
     }).catch((err:Error)=>{
         console.error("[PTZ Controller Service  - HOME ERROR]", err);
+        reply(err);
     });
 });
 
-ptzService.on("preset", (client:any, token:string)=> {
+ptzService.on("preset", (client:any, token:string, camera:string, reply:Function)=> {
     console.log("[PTZ Controller Service  - Recall Preset]", client, token);
-    cameraController.gotoPreset(token).then(()=>{
+    manualControl(camera).then((c)=>c.gotoPreset(token)).then(()=>{
         console.log("[PTZ Controller Service  - RECALLED PRESET]", token);
+        reply();
     }).catch((err:Error)=>{
         console.error("[PTZ Controller Service  - RECALL PRESET ERROR]", err);
+        reply(err);
+    });
+});
+
+ptzService.on("setPreset", (client:any, name:string, token:string, camera:string, reply:Function)=> {
+    console.log("[PTZ Controller Service  - Set Preset]", client, name, token);
+    controller(camera).then((c)=>c.setPreset(name, token)).then((token)=>{
+        console.log("[PTZ Controller Service  - SET PRESET]", name, token);
+        reply(null, { token: token });
+    }).catch((err:Error)=>{
+        console.error("[PTZ Controller Service  - SET PRESET ERROR]", err);
+        reply(err);
     });
 });
 
-ptzService.on("ptz", (client:any, pan:number, tilt:number, zoom:number)=> {
+ptzService.on("removePreset", (client:any, token:string, camera:string, reply:Function)=> {
+    console.log("[PTZ Controller Service  - Remove Preset]", client, token);
+    controller(camera).then((c)=>c.removePreset(token)).then(()=>{
+        console.log("[PTZ Controller Service  - REMOVED PRESET]", token);
+        reply();
+    }).catch((err:Error)=>{
+        console.error("[PTZ Controller Service  - REMOVE PRESET ERROR]", err);
+        reply(err);
+    });
+});
+
+ptzService.on("setHome", (client:any, camera:string, reply:Function)=> {
+    console.log("[PTZ Controller Service  - Set Home]", client);
+    controller(camera).then((c)=>c.setHomePosition()).then(()=>{
+        console.log("[PTZ Controller Service  - SET HOME]");
+        reply();
+    }).catch((err:Error)=>{
+        console.error("[PTZ Controller Service  - SET HOME ERROR]", err);
+        reply(err);
+    });
+});
+
+ptzService.on("ptz", (client:any, pan:number, tilt:number, zoom:number, camera:string, reply:Function)=> {
     console.log("[PTZ Controller Service  - Move Camera]", client, pan, tilt, zoom);
-    cameraController.ptz(pan, tilt, zoom).then(()=>{
+    manualControl(camera).then((c)=>c.ptz(pan, tilt, zoom)).then(()=>{
         console.log("[PTZ Controller Service  - PTZ]", pan, tilt, zoom);
+        reply();
     }).catch((err:Error)=>{
         console.error("[PTZ Controller Service  - PTZ ERROR]", err);
+        reply(err);
+    });
+});
+
+ptzService.on("absolute", (client:any, pan:number, tilt:number, zoom:number, camera:string, reply:Function)=> {
+    console.log("[PTZ Controller Service  - Absolute Move Camera]", client, pan, tilt, zoom);
+    manualControl(camera).then((c)=>c.absoluteMove(pan, tilt, zoom)).then(()=>{
+        console.log("[PTZ Controller Service  - ABSOLUTE]", pan, tilt, zoom);
+        reply();
+    }).catch((err:Error)=>{
+        console.error("[PTZ Controller Service  - ABSOLUTE ERROR]", err);
+        reply(err);
+    });
+});
+
+ptzService.on("relative", (client:any, pan:number, tilt:number, zoom:number, camera:string, reply:Function)=> {
+    console.log("[PTZ Controller Service  - Relative Move Camera]", client, pan, tilt, zoom);
+    manualControl(camera).then((c)=>c.relativeMove(pan, tilt, zoom)).then(()=>{
+        console.log("[PTZ Controller Service  - RELATIVE]", pan, tilt, zoom);
+        reply();
+    }).catch((err:Error)=>{
+        console.error("[PTZ Controller Service  - RELATIVE ERROR]", err);
+        reply(err);
+    });
+});
+
+ptzService.on("nudge", (client:any, direction:string, duration:number, speed:number, camera:string, reply:Function)=> {
+    console.log("[PTZ Controller Service  - Nudge Camera]", client, direction, duration, speed);
+    manualControl(camera).then((c)=>c.nudge(direction, duration, speed)).then(()=>{
+        console.log("[PTZ Controller Service  - NUDGE]", direction, duration);
+        reply();
+    }).catch((err:Error)=>{
+        console.error("[PTZ Controller Service  - NUDGE ERROR]", err);
+        reply(err);
     });
 });
 
-ptzService.on("pan", (client:any, pan:number)=> {
+ptzService.on("pan", (client:any, pan:number, camera:string, reply:Function)=> {
     console.log("[PTZ Controller Service  - Pan Camera]", client, pan);
-    cameraController.pan(pan).then(()=>{
+    manualControl(camera).then((c)=>c.pan(pan)).then(()=>{
         console.log("[PTZ Controller Service  - PAN]", pan);
+        reply();
     }).catch((err:Error)=>{
         console.error("[PTZ Controller Service  - PAN ERROR]", err);
+        reply(err);
     });
 });
 
-ptzService.on("tilt", (client:any, tilt:number)=> {
+ptzService.on("tilt", (client:any, tilt:number, camera:string, reply:Function)=> {
     console.log("[PTZ Controller Service  - Tilt Camera]", client, tilt);
-    cameraController.tilt(tilt).then(()=>{
+    manualControl(camera).then((c)=>c.tilt(tilt)).then(()=>{
         console.log("[PTZ Controller Service  - TILT]", tilt);
+        reply();
     }).catch((err:Error)=>{
         console.error("[PTZ Controller Service  - TILT ERROR]", err);
+        reply(err);
     });
 });
 
-ptzService.on("zoom", (client:any, zoom:number)=> {
+ptzService.on("zoom", (client:any, zoom:number, camera:string, reply:Function)=> {
     console.log("[PTZ Controller Service  - Pan Zoom]", client, zoom);
-    cameraController.zoom(zoom).then(()=>{
+    manualControl(camera).then((c)=>c.zoom(zoom)).then(()=>{
         console.log("[PTZ Controller Service  - ZOOM]", zoom);
+        reply();
     }).catch((err:Error)=>{
         console.error("[PTZ Controller Service  - ZOOM ERROR]", err);
+        reply(err);
     });
 });
 
+ptzService.on("tourStart", (client:any, name:string, camera:string, reply:Function)=> {
+    console.log("[PTZ Controller Service  - Start Tour]", client, name);
+    controller(camera).then((c)=>tourController.start(name, c)).then(()=>{
+        console.log("[PTZ Controller Service  - TOUR STARTED]", name);
+        reply();
+    }).catch((err:Error)=>{
+        console.error("[PTZ Controller Service  - START TOUR ERROR]", err);
+        reply(err);
+    });
+});
+
+ptzService.on("tourStop", (client:any, camera:string, reply:Function)=> {
+    console.log("[PTZ Controller Service  - Stop Tour]", client);
+    controller(camera).then((c)=>{
+        tourController.stop(c.camera().uuid);
+        reply();
+    }).catch((err:Error)=>{
+        console.error("[PTZ Controller Service  - STOP TOUR ERROR]", err);
+        reply(err);
+    });
+});
+
+ptzService.on("tourSet", (client:any, tour:PresetTour, reply:Function)=> {
+    console.log("[PTZ Controller Service  - Set Tour]", client, tour.name);
+    try {
+        tourController.define(tour);
+        reply();
+    }
+    catch(err) {
+        console.error("[PTZ Controller Service  - SET TOUR ERROR]", err);
+        reply(err);
+    }
+});
+
+ptzService.on("tourRemove", (client:any, name:string, reply:Function)=> {
+    console.log("[PTZ Controller Service  - Remove Tour]", client, name);
+    if(tourController.remove(name)) {
+        reply();
+        return;
+    }
+    console.error("[PTZ Controller Service  - REMOVE TOUR ERROR]", "Unknown tour: " + name);
+    reply(new Error("Unknown tour: " + name));
+});
+
+ptzService.on("heartbeat", (client:any)=> {
+    console.error("[PTZ Controller Service  - Heartbeat Lost]", client);
+});
+
+ptzService.on("deadman", (client:any, camera:string)=> {
+    console.error("[PTZ Controller Service  - Dead-Man Stop]", client, camera);
+});
+
+ptzService.on("control", (camera:string, identity:ControllerIdentity, client:any)=> {
+    if(identity)
+        console.log("[PTZ Controller Service  - Control Taken]", camera, identity.name, client);
+    else
+        console.log("[PTZ Controller Service  - Control Released]", camera);
+});
+
+ptzService.on("camera", (client:any, camera:string)=> {
+    console.log("[PTZ Controller Service  - Select Camera]", client, camera || "active");
+});
+
 ptzService.on("error", (err:Error)=> {
     console.error("[PTZ Controller Service  - ERROR]", err);
 });
@@ -189,43 +409,157 @@ ptzService.on("error", (err:Error)=> {
 
 /**
  * **************************************************************************
- * LOG EVENTS FROM THE MONOCLE CAMERA CONTROLLER
+ * HANDLE COMMANDS RECEIVED ON THE MQTT BRIDGE
+ * **************************************************************************
+ */
+
+mqttBridge.on("command", (message:any, reply:Function)=> {
+    console.log("[MQTT Bridge - COMMAND]", message.type, message.camera || "active");
+    ptzService.submit("mqtt", mqttBridge.identity(), message, (err:any)=> {
+        if(err) console.error("[MQTT Bridge - COMMAND FAILED]", message.type, err.message || err);
+        reply(err);
+    });
+});
+
+mqttBridge.on("connected", (url:string)=> {
+    console.log("[MQTT Bridge - CONNECTED]", url);
+});
+
+mqttBridge.on("closed", ()=> {
+    console.log("[MQTT Bridge - DISCONNECTED]");
+});
+
+mqttBridge.on("error", (err:Error)=> {
+    console.error("[MQTT Bridge - ERROR]", err.message);
+});
+
+
+/**
+ * **************************************************************************
+ * LOG EVENTS FROM THE ONVIF SIMULATOR
  * **************************************************************************
  */
 
-cameraController.on("error", (err:Error)=> {
+onvifSimulator.on("listening", (xaddr:string)=> {
+    console.log("[ONVIF Simulator - LISTENING]", xaddr);
+});
+
+onvifSimulator.on("error", (err:Error)=> {
+    console.error("[ONVIF Simulator - ERROR]", err.message);
+});
+
+
+/**
+ * **************************************************************************
+ * LOG EVENTS FROM THE MONOCLE CAMERA POOL
+ * **************************************************************************
+ */
+
+cameraPool.on("added", (camera:Camera)=> {
+    console.log("[Camera Pool - ADDED]", camera.name);
+    ptzService.updateCameras(cameraPool.cameras());
+    mqttBridge.updateCameras(cameraPool.cameras());
+});
+
+cameraPool.on("removed", (uuid:string)=> {
+    console.log("[Camera Pool - REMOVED]", uuid);
+    tourController.stop(uuid);
+    ptzService.updateCameras(cameraPool.cameras());
+    mqttBridge.updateCameras(cameraPool.cameras());
+});
+
+cameraPool.on("error", (err:Error)=> {
     console.error("[Camera Controller - ERROR]", err);
 });
 
-cameraController.on("stop", ()=> {
+cameraPool.on("stop", ()=> {
     console.log("[Camera Controller - STOPPED]");
 });
 
-cameraController.on("home", ()=> {
+cameraPool.on("home", ()=> {
     console.log("[Camera Controller - HOME]");
 });
 
-cameraController.on("preset", (token:string)=> {
+cameraPool.on("preset", (token:string)=> {
     console.log("[Camera Controller - RECALLED PRESET]", token);
 });
 
-cameraController.on("ptz", (pan:number, tilt:number, zoom:number)=> {
+cameraPool.on("ptz", (pan:number, tilt:number, zoom:number)=> {
     console.log("[Camera Controller - PTZ]", pan, tilt, zoom);
 });
 
-cameraController.on("pan", (pan:number)=> {
+cameraPool.on("absolute", (pan:number, tilt:number, zoom:number)=> {
+    console.log("[Camera Controller - ABSOLUTE]", pan, tilt, zoom);
+});
+
+cameraPool.on("relative", (pan:number, tilt:number, zoom:number)=> {
+    console.log("[Camera Controller - RELATIVE]", pan, tilt, zoom);
+});
+
+cameraPool.on("presets", (camera:Camera)=> {
+    console.log("[Camera Controller - PRESETS UPDATED]", camera.name, camera.presets.length);
+    ptzService.updateCamera(camera);
+    mqttBridge.updateCamera(camera);
+});
+
+cameraPool.on("setPreset", (token:string, name:string)=> {
+    console.log("[Camera Controller - SET PRESET]", token, name);
+});
+
+cameraPool.on("removePreset", (token:string)=> {
+    console.log("[Camera Controller - REMOVED PRESET]", token);
+});
+
+cameraPool.on("setHome", ()=> {
+    console.log("[Camera Controller - SET HOME]");
+});
+
+cameraPool.on("status", (status:CameraStatus)=> {
+    ptzService.updateStatus(status);
+    mqttBridge.updateStatus(status);
+});
+
+cameraPool.on("latency", (latency:any)=> {
+    if(latency.slow)
+        console.warn("[Camera Controller - SLOW COMMAND]", latency.camera, latency.command,
+                     `queued ${latency.wait}ms, sent in ${latency.duration}ms, ${latency.pending} pending`);
+});
+
+cameraPool.on("nudge", (direction:string, duration:number, speed:number, mode:string)=> {
+    console.log("[Camera Controller - NUDGE]", direction, duration, speed, mode);
+});
+
+cameraPool.on("pan", (pan:number)=> {
     console.log("[Camera Controller - PAN]", pan);
 });
 
-cameraController.on("tilt", (tilt:number)=> {
+cameraPool.on("tilt", (tilt:number)=> {
     console.log("[Camera Controller - TILT]", tilt);
 });
 
-cameraController.on("zoom", (zoom:number)=> {
+cameraPool.on("zoom", (zoom:number)=> {
     console.log("[Camera Controller - ZOOM]", zoom);
 });
 
 
+/**
+ * **************************************************************************
+ * LOG EVENTS FROM THE MONOCLE TOUR CONTROLLER
+ * **************************************************************************
+ */
+
+tourController.on("progress", (progress:any)=> {
+    console.log("[Tour Controller - PROGRESS]", progress.tour, progress.state, progress.step, progress.preset || "");
+    ptzService.updateTour(progress);
+});
+
+tourController.on("tours", (tours:Array<PresetTour>)=> {
+    ptzService.updateTours(tours);
+});
+
+ptzService.updateTours(tourController.tours());
+
+
 /**
  * **************************************************************************
  * LISTEN FOR CAMERA SOURCE CHANGES ON THE ALEXA SERVICE
@@ -240,11 +574,13 @@ monocle.on('alexa.source', (data:any)=> {
     console.log("ACTIVE ALEXA CAMERA: ", source.name);
     console.log("-------------------------------------------------");
 
-    cameraController.initialize(source).then((camera)=>{
+    cameraPool.activate(source).then((camera)=>{
         console.log("-- active camera source ready for control:", camera.name);
         ptzService.updateActiveCamera(camera);
+        mqttBridge.updateActiveCamera(camera);
     }).catch((err) => {
         ptzService.updateActiveCamera(new Camera({source: source, error: err.message}));
+        mqttBridge.updateActiveCamera(new Camera({source: source, error: err.message}));
         console.error("-- active camera source failed to initialize:", source.name);
         console.error(err);
     });
@@ -260,6 +596,19 @@ monocle.on('alexa.source', (data:any)=> {
 // if it gets disconnected, it will continue to retry to connect.
 monocle.start();
 
+// if PTZ controllers are required to authenticate, then open a pairing window at
+// startup only if configured to; otherwise an admin controller opens one (PAIR:OPEN)
+if(ptzService.isAuthEnabled() && ptzService.isPairingOnStart())
+    ptzService.openPairing();
+
+// connect to the MQTT broker (if one is configured)
+mqttBridge.connect();
+
+// start the simulated ONVIF camera (if a simulator port is configured)
+onvifSimulator.listen().catch((err:Error)=> {
+    console.error("[ONVIF Simulator - ERROR]", err.message);
+});
+
 // welcome
 console.log(" ******************************************************************\r\n" +
             " *             __  __  ___  _  _  ___   ___ _    ___              *\r\n" +
@@ -28,42 +28,66 @@
 'use strict';
 
 import {EventEmitter} from "events";
-import * as Onvif from 'node-onvif';
 import * as _ from 'underscore';
-import { URL } from 'url';
-import {Camera} from "../";
+import {Camera, CameraConfig, CameraPreset, CameraStatus, SpeedCurve} from "../";
+import {CameraDriver} from "../driver/CameraDriver";
+import {DriverRegistry} from "../driver/DriverRegistry";
+import {CommandQueue} from "./CommandQueue";
+import {clamp, isNumber} from "../util/Numbers";
 
 // Default Camera Controller Options/Configuration
 const default_options = {
-    reconnectInterval: 60000  // 60 seconds
+    reconnectInterval: 60000,      // 60 seconds
+    "status-poll-interval": 500,   // poll the PTZ status twice a second while moving
+    "status-settle-time": 3000,    // ... and for 3 seconds after the last move or stop
+    "status-failure-limit": 5,     // status updates are disabled after 5 consecutive failed status requests
+    "ptz-move-timeout": 2,         // continuous moves stop on their own after 2 seconds ...
+    "ptz-keepalive-interval": 1000,// ... unless they are refreshed every second
+    "nudge-mode": "auto",          // nudge with relative moves if supported by the camera ("auto", "relative" or "continuous")
+    "nudge-speed": 1,              // default nudge speed (from 0 to 3)
+    "nudge-max-duration": 2000,    // nudges are limited to 2 seconds
+    "nudge-relative-rate": 0.5     // normalized distance travelled per second at full speed by a relative nudge
 };
 
-const HIGH_SPEED:number = 3;
-const MEDIUM_SPEED:number = 2;
-const LOW_SPEED:number = 1;
-
-const PAN_HIGH_SPEED:number = 1;
-const PAN_MEDIUM_SPEED:number = .5;
-const PAN_LOW_SPEED:number = .2;
-
-const TILT_HIGH_SPEED:number = 1;
-const TILT_MEDIUM_SPEED:number = .5;
-const TILT_LOW_SPEED:number = .2;
+// Nudge directions; the unit vector applied to the pan, tilt and zoom axis
+const NUDGE_DIRECTIONS = {
+    left:  { pan: -1, tilt: 0,  zoom: 0 },
+    right: { pan: 1,  tilt: 0,  zoom: 0 },
+    up:    { pan: 0,  tilt: 1,  zoom: 0 },
+    down:  { pan: 0,  tilt: -1, zoom: 0 },
+    in:    { pan: 0,  tilt: 0,  zoom: 1 },
+    out:   { pan: 0,  tilt: 0,  zoom: -1 }
+};
 
-const ZOOM_HIGH_SPEED:number = 1;
-const ZOOM_MEDIUM_SPEED:number = .5;
-const ZOOM_LOW_SPEED:number = .2;
+// status request errors indicating that the camera does not support status requests at all
+// (an ONVIF 'ActionNotSupported' fault, a response without status or a VISCA syntax error)
+const UNSUPPORTED = /not\s*support|not\s*implemented|syntax error/i;
 
 /**
- * This class is responsible for communicating with
- * network/IP cameras via the ONVIF protocol
+ * This class is responsible for controlling a network/IP camera;
+ * the camera protocol (ONVIF by default) is implemented by the
+ * camera driver selected for the camera source.
  */
 export class CameraController extends EventEmitter{
 
     protected readonly _options:any;
     protected _initialized:boolean;
-    protected _device:Onvif;
+    protected _driver:CameraDriver = null;
     protected _camera:Camera = null;
+    protected _settings:CameraConfig = null;
+    protected _curves:any = {};
+    protected _moving:boolean = false;
+    protected _status:CameraStatus = null;
+    protected _previousStatus:CameraStatus = null;
+    protected _statusSupported:boolean = true;
+    protected _statusFailures:number = 0;
+    protected _statusTimer:any = null;
+    protected _settleUntil:number = 0;
+    protected _keepalive:any = null;
+    protected _keepaliveTimer:any = null;
+    protected _generation:number = 0;
+    protected _nudge:any = null;
+    protected readonly _queue:CommandQueue;
 
 
     /**
@@ -77,6 +101,12 @@ export class CameraController extends EventEmitter{
             this._options = _.defaults(options, default_options);
         else
             this._options = default_options;
+
+        // all requests to the camera are serialized through the command queue
+        this._queue = new CommandQueue(this._options);
+        this._queue.on("latency", (latency:any) => {
+            this.emit("latency", _.extend({ camera: (this._camera) ? this._camera.uuid : null }, latency));
+        });
     }
 
     /**
@@ -87,6 +117,39 @@ export class CameraController extends EventEmitter{
         return this._initialized;
     }
 
+    /**
+     * Returns the camera instance created during initialization
+     * @return {Camera}
+     */
+    public camera():Camera{
+        return this._camera;
+    }
+
+    /**
+     * Release any resources (timers) held by this camera controller
+     */
+    public close():void{
+        if(this._statusTimer) clearTimeout(this._statusTimer);
+        if(this._nudge) {
+            clearTimeout(this._nudge.timer);
+            this._nudge.resolve();
+        }
+        this._nudge = null;
+        this._statusTimer = null;
+        this.keepalive(null);
+        this._initialized = false;
+        this._queue.clear(new Error("The camera controller has been closed."));
+        if(this._driver) this._driver.close();
+    }
+
+    /**
+     * Returns the command queue statistics for this camera
+     * @return {any} { pending, executed, coalesced, averageWait, maxWait, averageDuration }
+     */
+    public queueStats():any{
+        return this._queue.stats();
+    }
+
     /**
      * Returns the PTZ supported status of the active camera
      * @return {boolean}
@@ -121,13 +184,12 @@ export class CameraController extends EventEmitter{
                 return;
             }
 
-            let params = {
-                'ProfileToken': self._device.getCurrentProfile().token
-            };
-
-            // send home recall instruction to camera now
-            self._device.services.ptz.stop(params).then(() => {
-                self.emit("home");
+            // send stop instruction to camera now; continuous moves are no longer refreshed
+            self.keepalive(null);
+            self._queue.enqueue(CommandQueue.STOP, "stop", () => self._driver.stop()).then(() => {
+                self._moving = false;
+                self.emit("stop");
+                self.watchStatus();
                 resolve();
             }).catch((error) => {
                 self.emit("error", error);
@@ -162,13 +224,13 @@ export class CameraController extends EventEmitter{
                 return;
             }
 
-            let params = {
-                'ProfileToken': self._device.getCurrentProfile().token
-            };
-
-            // send home recall instruction to camera now
-            self._device.services.ptz.gotoHomePosition(params).then(() => {
+            // send home recall instruction to camera now; continuous moves are no longer refreshed
+            self.keepalive(null);
+            self._queue.enqueue(CommandQueue.MOTION, "gotoHomePosition", () => self._driver.gotoHome()).then((result) => {
+                // the move was discarded by a stop before it was sent
+                if(result === CommandQueue.SUPERSEDED) return resolve();
                 self.emit("home");
+                self.watchStatus();
                 resolve();
             }).catch((error) => {
                 self.emit("error", error);
@@ -180,9 +242,10 @@ export class CameraController extends EventEmitter{
     /**
      * Move the camera to a preconfigured PRESET by token id.
      * @param {string} token id
+     * @param {number} speed : (optional) travel speed between 0 and +1 (defaults to full speed)
      * @return {Promise<void>}
      */
-    public gotoPreset(token:string):Promise<void>{
+    public gotoPreset(token:string, speed?:number):Promise<void>{
         let self = this;
 
         // return promise
@@ -204,32 +267,135 @@ export class CameraController extends EventEmitter{
                 return;
             }
 
-            // if the token passed to us starts with the hash character, then
-            // parse the number and use that as the index into the presets array
-            if(token.startsWith("#")){
-                let index = parseInt(token.slice(1));
+            // resolve preset slot ("#n") and name ("name=<text>") references to the actual preset token
+            let resolved = self.presetToken(token);
+            if(!resolved){
+                let error = new Error("Unable to recall camera preset; unknown preset: " + token);
+                self.emit("error", error);
+                reject(error);
+                return;
+            }
+            token = resolved;
+
+            // preset travel speed; full speed unless a valid speed was requested
+            let travel = (isNumber(speed) && speed > 0) ? clamp(speed, 0, 1) : 1;
+
+            // send preset recall instruction to camera now; continuous moves are no longer refreshed
+            self.keepalive(null);
+            self._queue.enqueue(CommandQueue.MOTION, "gotoPreset", () => self._driver.gotoPreset(token, travel)).then((result) => {
+                // the move was discarded by a stop before it was sent
+                if(result === CommandQueue.SUPERSEDED) return resolve();
+                self.emit("preset", token);
+                self.watchStatus();
+                resolve();
+            }).catch((error) => {
+                self.emit("error", error);
+                reject(error);
+            });
+        });
+    }
+
+    /**
+     * Store the current camera position as a PRESET. If a preset token is
+     * provided, then that existing preset is overwritten (and renamed);
+     * otherwise a new preset is created.
+     * @param {string} name : preset name
+     * @param {string} token : (optional) token id of the preset to overwrite
+     * @return {Promise<string>} return promise with the preset token
+     */
+    public setPreset(name:string, token?:string):Promise<string>{
+        let self = this;
+
+        // return promise
+        return new Promise<any> ((resolve, reject) => {
+
+            // ensure the current camera is initialized
+            if (!this._initialized) {
+                let error = new Error("Unable to set camera preset; the camera is not initialized.");
+                self.emit("error", error);
+                reject(error);
+                return;
+            }
+
+            // ensure the current camera supports PTZ
+            if (!this._camera.ptz) {
+                let error = new Error("Unable to set camera preset; the camera does not support PTZ.");
+                self.emit("error", error);
+                reject(error);
+                return;
+            }
 
-                // validate index
-                if(index >= self._camera.presets.length){
-                    let error = new Error("Unable to recall camera preset; invalid preset index: " + token);
+            // resolve preset slot ("#n") and name ("name=<text>") references to the actual preset token
+            if(token){
+                let resolved = self.presetToken(token);
+                if(!resolved){
+                    let error = new Error("Unable to set camera preset; unknown preset: " + token);
                     self.emit("error", error);
                     reject(error);
                     return;
                 }
+                token = resolved;
+            }
+
+            // send preset store instruction to camera now
+            self._queue.enqueue(CommandQueue.COMMAND, "setPreset", () => self._driver.setPreset(name, token)).then((result) => {
+                token = result || token;
+
+                // refresh the cached presets to include the new/updated preset
+                return self.refreshPresets();
+            }).then(() => {
+                self.emit("setPreset", token, name);
+                resolve(token);
+            }).catch((error) => {
+                self.emit("error", error);
+                reject(error);
+            });
+        });
+    }
+
+    /**
+     * Remove a PRESET from the camera by token id.
+     * @param {string} token id
+     * @return {Promise<void>}
+     */
+    public removePreset(token:string):Promise<void>{
+        let self = this;
 
-                // not get the actual preset token from the cached presets
-                token = self._camera.presets[index].token;
+        // return promise
+        return new Promise<any> ((resolve, reject) => {
+
+            // ensure the current camera is initialized
+            if (!this._initialized) {
+                let error = new Error("Unable to remove camera preset; the camera is not initialized.");
+                self.emit("error", error);
+                reject(error);
+                return;
             }
 
-            let params = {
-                'ProfileToken': self._device.getCurrentProfile().token,
-                'PresetToken': token,
-                'Speed': {'x': 1, 'y': 1, 'z': 1}
-            };
+            // ensure the current camera supports PTZ
+            if (!this._camera.ptz) {
+                let error = new Error("Unable to remove camera preset; the camera does not support PTZ.");
+                self.emit("error", error);
+                reject(error);
+                return;
+            }
 
-            // send preset recall instruction to camera now
-            self._device.services.ptz.gotoPreset(params).then(() => {
-                self.emit("preset", token);
+            // resolve preset slot ("#n") and name ("name=<text>") references to the actual preset token
+            let resolved = self.presetToken(token);
+            if(!resolved){
+                let error = new Error("Unable to remove camera preset; unknown preset: " + token);
+                self.emit("error", error);
+                reject(error);
+                return;
+            }
+            token = resolved;
+
+            // send preset removal instruction to camera now
+            self._queue.enqueue(CommandQueue.COMMAND, "removePreset", () => self._driver.removePreset(token)).then(() => {
+                // refresh the cached presets to exclude the removed preset
+                return self.refreshPresets();
+            }).then(() => {
+                self.emit("removePreset", token);
                 resolve();
             }).catch((error) => {
                 self.emit("error", error);
@@ -238,9 +404,68 @@ export class CameraController extends EventEmitter{
         });
     }
 
+    /**
+     * Store the current camera position as its HOME position
+     * @return {Promise<void>}
+     */
+    public setHomePosition():Promise<void>{
+        let self = this;
+
+        // return promise
+        return new Promise<any> ((resolve, reject) => {
+
+            // ensure the current camera is initialized
+            if (!this._initialized) {
+                let error = new Error("Unable to set camera home; the camera is not initialized.");
+                self.emit("error", error);
+                reject(error);
+                return;
+            }
+
+            // ensure the current camera supports PTZ
+            if (!this._camera.ptz) {
+                let error = new Error("Unable to set camera home; the camera does not support PTZ.");
+                self.emit("error", error);
+                reject(error);
+                return;
+            }
+
+            // send home store instruction to camera now
+            self._queue.enqueue(CommandQueue.COMMAND, "setHomePosition", () => self._driver.setHome()).then(() => {
+                self.emit("setHome");
+                resolve();
+            }).catch((error) => {
+                self.emit("error", error);
+                reject(error);
+            });
+        });
+    }
+
+    /**
+     * Reload the PRESETS from the camera and update the cached camera instance;
+     * a 'presets' event is emitted with the updated camera instance.
+     * @return {Promise<Camera>} return promise with the updated camera
+     */
+    public refreshPresets():Promise<Camera>{
+        let self = this;
+        return self.loadPresets().then((presets) => {
+            let camera = self._camera;
+            self._camera = new Camera({
+                source: camera.source(),
+                info: camera.info(),
+                ptz: camera.ptz,
+                presets: presets,
+                profile: camera.profile,
+                profiles: camera.profiles
+            });
+            self.emit("presets", self._camera);
+            return self._camera;
+        });
+    }
+
     /**
      * Pan the camera left or right based on the pan value received.
-     * @param {number} pan : value between -3 and +3 (negative is left; positive is right)
+     * @param {number} pan : value between -3 and +3; fractional values allowed (negative is left; positive is right)
      * @return {Promise<void>}
      */
     public pan(pan:number):Promise<void>{
@@ -266,21 +491,23 @@ export class CameraController extends EventEmitter{
             }
 
             // get scaled pan speed value for camera
-            pan = CameraController.getPanSpeed(pan);
-
-            let params = {
-                'ProfileToken': self._device.getCurrentProfile().token,
-                'Velocity': {
-                    x: pan,  // Speed of pan (in the range of -1.0 to 1.0)
-                    y: 0,    // Speed of tilt (in the range of -1.0 to 1.0)
-                    z: 0     // Speed of zoom (in the range of -1.0 to 1.0)
-                },
-                'Timeout': 10
-            };
+            pan = self.getPanSpeed(pan);
+
+            let velocity = { pan: pan, tilt: 0, zoom: 0 };
 
             // send pan movement instruction to camera now
-            self._device.services.ptz.continuousMove(params).then(() => {
+            let generation = self._generation;
+            self._queue.enqueue(CommandQueue.VELOCITY, "continuousMove", () => self._driver.continuousMove(velocity.pan, velocity.tilt, velocity.zoom)).then((result) => {
+                // a newer velocity update replaced this one before it was sent or another
+                // movement instruction (or a stop) was issued while it was in flight
+                if(result === CommandQueue.SUPERSEDED || generation !== self._generation) {
+                    resolve();
+                    return;
+                }
+                self._moving = pan !== 0;
                 self.emit("pan", pan);
+                self.keepalive(velocity, generation);
+                self.watchStatus();
                 resolve();
             }).catch((error) => {
                 self.emit("error", error);
@@ -291,7 +518,7 @@ export class CameraController extends EventEmitter{
 
     /**
      * Tilt the camera up or down based on the tilt value received.
-     * @param {number} tilt : value between -3 and +3 (negative is down; positive is up)
+     * @param {number} tilt : value between -3 and +3; fractional values allowed (negative is down; positive is up)
      * @return {Promise<void>}
      */
     public tilt(tilt:number):Promise<void>{
@@ -317,21 +544,23 @@ export class CameraController extends EventEmitter{
             }
 
             // get scaled tilt speed value for camera
-            tilt = CameraController.getTiltSpeed(tilt);
-
-            let params = {
-                'ProfileToken': self._device.getCurrentProfile().token,
-                'Velocity': {
-                    x: 0,    // Speed of pan (in the range of -1.0 to 1.0)
-                    y: tilt, // Speed of tilt (in the range of -1.0 to 1.0)
-                    z: 0     // Speed of zoom (in the range of -1.0 to 1.0)
-                },
-                'Timeout': 10
-            };
+            tilt = self.getTiltSpeed(tilt);
+
+            let velocity = { pan: 0, tilt: tilt, zoom: 0 };
 
             // send tilt movement instruction to camera now
-            self._device.services.ptz.continuousMove(params).then(() => {
+            let generation = self._generation;
+            self._queue.enqueue(CommandQueue.VELOCITY, "continuousMove", () => self._driver.continuousMove(velocity.pan, velocity.tilt, velocity.zoom)).then((result) => {
+                // a newer velocity update replaced this one before it was sent or another
+                // movement instruction (or a stop) was issued while it was in flight
+                if(result === CommandQueue.SUPERSEDED || generation !== self._generation) {
+                    resolve();
+                    return;
+                }
+                self._moving = tilt !== 0;
                 self.emit("tilt", tilt);
+                self.keepalive(velocity, generation);
+                self.watchStatus();
                 resolve();
             }).catch((error) => {
                 self.emit("error", error);
@@ -342,7 +571,7 @@ export class CameraController extends EventEmitter{
 
     /**
      * Zoom the camera in or out based on the zoom value received.
-     * @param {number} zoom : value between -3 and +3 (negative is out; positive is in)
+     * @param {number} zoom : value between -3 and +3; fractional values allowed (negative is out; positive is in)
      * @return {Promise<void>}
      */
     public zoom(zoom:number):Promise<void>{
@@ -368,21 +597,23 @@ export class CameraController extends EventEmitter{
             }
 
             // get scaled zoom speed value for camera
-            zoom = CameraController.getZoomSpeed(zoom);
-
-            let params = {
-                'ProfileToken': self._device.getCurrentProfile().token,
-                'Velocity': {
-                    x: 0,    // Speed of pan (in the range of -1.0 to 1.0)
-                    y: 0,    // Speed of tilt (in the range of -1.0 to 1.0)
-                    z: zoom  // Speed of zoom (in the range of -1.0 to 1.0)
-                },
-                'Timeout': 10
-            };
+            zoom = self.getZoomSpeed(zoom);
+
+            let velocity = { pan: 0, tilt: 0, zoom: zoom };
 
             // send zoom movement instruction to camera now
-            self._device.services.ptz.continuousMove(params).then(() => {
+            let generation = self._generation;
+            self._queue.enqueue(CommandQueue.VELOCITY, "continuousMove", () => self._driver.continuousMove(velocity.pan, velocity.tilt, velocity.zoom)).then((result) => {
+                // a newer velocity update replaced this one before it was sent or another
+                // movement instruction (or a stop) was issued while it was in flight
+                if(result === CommandQueue.SUPERSEDED || generation !== self._generation) {
+                    resolve();
+                    return;
+                }
+                self._moving = zoom !== 0;
                 self.emit("zoom", zoom);
+                self.keepalive(velocity, generation);
+                self.watchStatus();
                 resolve();
             }).catch((error) => {
                 self.emit("error", error);
@@ -393,9 +624,9 @@ export class CameraController extends EventEmitter{
 
     /**
      * Move the camera on its 3-axis depending on the PTZ values received
-     * @param {number} pan : value between -3 and +3 (negative is left; positive is right)
-     * @param {number} tilt : value between -3 and +3 (negative is down; positive is up)*
-     * @param {number} zoom : value between -3 and +3 (negative is out; positive is in)
+     * @param {number} pan : value between -3 and +3; fractional values allowed (negative is left; positive is right)
+     * @param {number} tilt : value between -3 and +3; fractional values allowed (negative is down; positive is up)*
+     * @param {number} zoom : value between -3 and +3; fractional values allowed (negative is out; positive is in)
      * @return {Promise<void>}
      */
     public ptz(pan:number, tilt:number, zoom:number):Promise<void>{
@@ -421,27 +652,145 @@ export class CameraController extends EventEmitter{
             }
 
             // get scaled pan speed value for camera
-            pan = CameraController.getPanSpeed(pan);
+            pan = self.getPanSpeed(pan);
 
             // get scaled tilt speed value for camera
-            tilt = CameraController.getTiltSpeed(tilt);
+            tilt = self.getTiltSpeed(tilt);
 
             // get scaled zoom speed value for camera
-            zoom = CameraController.getZoomSpeed(zoom);
-
-            let params = {
-                'ProfileToken': self._device.getCurrentProfile().token,
-                'Velocity': {
-                    x: pan,   // Speed of pan (in the range of -1.0 to 1.0)
-                    y: tilt,  // Speed of tilt (in the range of -1.0 to 1.0)
-                    z: zoom   // Speed of zoom (in the range of -1.0 to 1.0)
-                },
-                'Timeout': 10
-            };
+            zoom = self.getZoomSpeed(zoom);
+
+            let velocity = { pan: pan, tilt: tilt, zoom: zoom };
 
             // send PTZ movement instruction to camera now
-            self._device.services.ptz.continuousMove(params).then(() => {
+            let generation = self._generation;
+            self._queue.enqueue(CommandQueue.VELOCITY, "continuousMove", () => self._driver.continuousMove(velocity.pan, velocity.tilt, velocity.zoom)).then((result) => {
+                // a newer velocity update replaced this one before it was sent or another
+                // movement instruction (or a stop) was issued while it was in flight
+                if(result === CommandQueue.SUPERSEDED || generation !== self._generation) {
+                    resolve();
+                    return;
+                }
+                self._moving = (pan !== 0 || tilt !== 0 || zoom !== 0);
                 self.emit("ptz", pan, tilt, zoom);
+                self.keepalive(velocity, generation);
+                self.watchStatus();
+                resolve();
+            }).catch((error) => {
+                self.emit("error", error);
+                reject(error);
+            });
+        });
+    }
+
+    /**
+     * Move the camera to an absolute position using normalized coordinates.
+     * Any axis that is omitted (or not a number) keeps its current position.
+     * @param {number} pan : value between -1 and +1 (negative is left; positive is right)
+     * @param {number} tilt : value between -1 and +1 (negative is down; positive is up)
+     * @param {number} zoom : value between 0 and +1 (0 is fully zoomed out; 1 is fully zoomed in)
+     * @return {Promise<void>}
+     */
+    public absoluteMove(pan?:number, tilt?:number, zoom?:number):Promise<void>{
+        let self = this;
+
+        // return promise
+        return new Promise<any> ((resolve, reject) => {
+
+            // ensure the current camera is initialized
+            if (!this._initialized) {
+                let error = new Error("Unable to move camera to absolute position; the camera is not initialized.");
+                self.emit("error", error);
+                reject(error);
+                return;
+            }
+
+            // ensure the current camera supports PTZ
+            if (!this._camera.ptz) {
+                let error = new Error("Unable to move camera to absolute position; the camera does not support PTZ.");
+                self.emit("error", error);
+                reject(error);
+                return;
+            }
+
+            // ensure the current camera supports absolute positioning
+            if (!this._driver.capabilities().absolute) {
+                let error = new Error("Unable to move camera to absolute position; the camera does not support absolute moves.");
+                self.emit("error", error);
+                reject(error);
+                return;
+            }
+
+            // omitted axes keep their current position
+            pan = isNumber(pan) ? clamp(pan, -1, 1) : undefined;
+            tilt = isNumber(tilt) ? clamp(tilt, -1, 1) : undefined;
+            zoom = isNumber(zoom) ? clamp(zoom, 0, 1) : undefined;
+
+            // send absolute movement instruction to camera now; continuous moves are no longer refreshed
+            self.keepalive(null);
+            self._queue.enqueue(CommandQueue.MOTION, "absoluteMove", () => self._driver.absoluteMove(pan, tilt, zoom)).then((result) => {
+                // the move was discarded by a stop before it was sent
+                if(result === CommandQueue.SUPERSEDED) return resolve();
+                self.emit("absolute", pan, tilt, zoom);
+                self.watchStatus();
+                resolve();
+            }).catch((error) => {
+                self.emit("error", error);
+                reject(error);
+            });
+        });
+    }
+
+    /**
+     * Move the camera relative to its current position using normalized translations.
+     * @param {number} pan : value between -1 and +1 (negative is left; positive is right)
+     * @param {number} tilt : value between -1 and +1 (negative is down; positive is up)
+     * @param {number} zoom : value between -1 and +1 (negative is out; positive is in)
+     * @return {Promise<void>}
+     */
+    public relativeMove(pan:number, tilt:number, zoom:number):Promise<void>{
+        let self = this;
+
+        // return promise
+        return new Promise<any> ((resolve, reject) => {
+
+            // ensure the current camera is initialized
+            if (!this._initialized) {
+                let error = new Error("Unable to move camera relative to its position; the camera is not initialized.");
+                self.emit("error", error);
+                reject(error);
+                return;
+            }
+
+            // ensure the current camera supports PTZ
+            if (!this._camera.ptz) {
+                let error = new Error("Unable to move camera relative to its position; the camera does not support PTZ.");
+                self.emit("error", error);
+                reject(error);
+                return;
+            }
+
+            // ensure the current camera supports relative positioning
+            if (!this._driver.capabilities().relative) {
+                let error = new Error("Unable to move camera relative to its position; the camera does not support relative moves.");
+                self.emit("error", error);
+                reject(error);
+                return;
+            }
+
+            let translation = {
+                pan: clamp(isNumber(pan) ? pan : 0, -1, 1),
+                tilt: clamp(isNumber(tilt) ? tilt : 0, -1, 1),
+                zoom: clamp(isNumber(zoom) ? zoom : 0, -1, 1)
+            };
+
+            // send relative movement instruction to camera now; continuous moves are no longer refreshed
+            self.keepalive(null);
+            self._queue.enqueue(CommandQueue.MOTION, "relativeMove", () => self._driver.relativeMove(translation.pan, translation.tilt, translation.zoom)).then((result) => {
+                // the move was discarded by a stop before it was sent
+                if(result === CommandQueue.SUPERSEDED) return resolve();
+                self.emit("relative", pan, tilt, zoom);
+                self.watchStatus();
                 resolve();
             }).catch((error) => {
                 self.emit("error", error);
@@ -450,6 +799,267 @@ export class CameraController extends EventEmitter{
         });
     }
 
+    /**
+     * Nudge the camera in a direction for a limited time; intended for button-only
+     * controllers that cannot reliably send a stop after a move. If the camera
+     * supports calibrated relative moves, then the nudge is performed as a small
+     * relative move; otherwise a continuous move is sent and the camera is
+     * stopped once the duration has elapsed.
+     * @param {string} direction : left, right, up, down, in or out
+     * @param {number} duration : duration of the move in milliseconds
+     * @param {number} speed : (optional) value between 0 and +3; fractional values allowed
+     * @return {Promise<void>}
+     */
+    public nudge(direction:string, duration:number, speed?:number):Promise<void>{
+        let self = this;
+        let vector = NUDGE_DIRECTIONS[(direction || "").toLowerCase()];
+
+        // ensure the nudge direction and duration are valid
+        if (!vector || !isNumber(duration) || duration <= 0) {
+            let error = new Error("Unable to nudge camera; invalid direction or duration: " + direction + ", " + duration);
+            self.emit("error", error);
+            return Promise.reject(error);
+        }
+        duration = Math.min(duration, self._options["nudge-max-duration"]);
+        speed = clamp(Math.abs(isNumber(speed) ? speed : self._options["nudge-speed"]), 0, 3);
+
+        // perform the nudge as a relative move if the camera supports it
+        let mode = self._options["nudge-mode"];
+        let capabilities = (self._driver) ? self._driver.capabilities() : null;
+        let relative = (mode === "relative") || (mode !== "continuous" && !!capabilities && capabilities.relative && capabilities.calibrated);
+        if (relative) {
+            let step = clamp((speed / 3) * (duration / 1000) * self._options["nudge-relative-rate"], 0, 1);
+            return self.relativeMove(vector.pan * step, vector.tilt * step, vector.zoom * step).then(() => {
+                self.emit("nudge", direction, duration, speed, "relative");
+            });
+        }
+
+        // a new nudge replaces a nudge that is still in progress
+        if (self._nudge) {
+            clearTimeout(self._nudge.timer);
+            self._nudge.resolve();
+            self._nudge = null;
+        }
+
+        // otherwise start a continuous move and stop it when the duration has elapsed
+        return self.ptz(vector.pan * speed, vector.tilt * speed, vector.zoom * speed).then(() => {
+            let move = self._keepalive;
+            return new Promise<void>((resolve, reject) => {
+                let nudge = {
+                    resolve: resolve,
+                    timer: setTimeout(() => {
+                        if (self._nudge === nudge) self._nudge = null;
+
+                        // don't stop the camera if another movement instruction has replaced the nudge
+                        if (!move || self._keepalive !== move) {
+                            resolve();
+                            return;
+                        }
+                        self.stop().then(() => {
+                            self.emit("nudge", direction, duration, speed, "continuous");
+                            resolve();
+                        }).catch(reject);
+                    }, duration)
+                };
+                self._nudge = nudge;
+            });
+        });
+    }
+
+    /**
+     * Returns the last known PTZ status of the camera
+     * @return {CameraStatus}
+     */
+    public status():CameraStatus{
+        return this._status;
+    }
+
+    /**
+     * Request the current PTZ status from the camera
+     * @return {Promise<CameraStatus>} return promise with the normalized camera status
+     */
+    public getStatus():Promise<CameraStatus>{
+        let self = this;
+
+        // ensure the current camera is initialized and supports PTZ
+        if (!this._initialized || !this._camera.ptz) {
+            return Promise.reject(new Error("Unable to get camera status; the camera is not initialized or does not support PTZ."));
+        }
+
+        return self._queue.enqueue(CommandQueue.STATUS, "getStatus", () => self._driver.getStatus()).then((raw) => {
+            // not all cameras report their movement status; in that case rely on the
+            // continuous movement instructions we have sent to the camera
+            let moving = (typeof raw.moving === 'boolean') ? raw.moving : self._moving;
+
+            self._status = new CameraStatus({
+                uuid: self._camera.uuid,
+                pan: raw.pan,
+                tilt: raw.tilt,
+                zoom: raw.zoom,
+                moveStatus: (moving) ? CameraStatus.MOVING : CameraStatus.IDLE
+            });
+            return self._status;
+        });
+    }
+
+    /**
+     * Keep a continuous move alive; the move is sent with a short timeout and
+     * is refreshed periodically until another movement instruction or a stop
+     * is sent. If the gateway stops refreshing the move (for example when the
+     * process dies) then the camera stops on its own when the timeout expires.
+     * @param velocity : continuous move velocity { pan, tilt, zoom } to refresh or null to stop refreshing
+     * @param {number} generation : movement generation the continuous move was sent in
+     */
+    protected keepalive(velocity:any, generation?:number):void{
+        let self = this;
+
+        // a continuous move that was in flight when another movement instruction (or a stop)
+        // was issued must not restart the keepalive
+        if(velocity && generation !== self._generation) return;
+
+        // stop refreshing if there is no movement to refresh
+        if(!velocity || (velocity.pan === 0 && velocity.tilt === 0 && velocity.zoom === 0)){
+            if(!velocity) self._generation++;
+            if(self._keepaliveTimer) clearTimeout(self._keepaliveTimer);
+            self._keepaliveTimer = null;
+            self._keepalive = null;
+            return;
+        }
+
+        self._keepalive = velocity;
+        if(self._keepaliveTimer) return;
+
+        let refresh = () => {
+            self._keepaliveTimer = null;
+            if(!self._keepalive || !self._initialized) return;
+
+            // a pending velocity update refreshes the move (and restarts the keepalive) itself
+            if(self._queue.pending(CommandQueue.VELOCITY)) return;
+
+            let current = self._keepalive;
+            let generation = self._generation;
+            self._queue.enqueue(CommandQueue.VELOCITY, "continuousMove", () => self._driver.continuousMove(current.pan, current.tilt, current.zoom)).then(() => {
+                if(generation === self._generation && self._keepalive === current && !self._keepaliveTimer)
+                    self._keepaliveTimer = setTimeout(refresh, self.keepaliveInterval());
+            }).catch((error) => {
+                // a failed refresh lets the move time out on the camera
+                self._keepalive = null;
+                self.emit("error", error);
+            });
+        };
+        self._keepaliveTimer = setTimeout(refresh, self.keepaliveInterval());
+    }
+
+    /**
+     * The interval at which continuous moves are refreshed; the configured interval
+     * is clamped to half the move timeout so that each refresh reaches the camera
+     * before the previous move times out.
+     * @return {number} interval in milliseconds
+     */
+    protected keepaliveInterval():number{
+        return Math.min(this._options["ptz-keepalive-interval"], this._options["ptz-move-timeout"] * 500);
+    }
+
+    /**
+     * Poll the PTZ status of the camera while it is moving and for a short
+     * settle time after the last movement instruction; a 'status' event is
+     * emitted each time the position or movement status changes. Polling
+     * requires the driver to support status requests; once the camera proves
+     * that it does not, polling stays disabled (even if it is initialized again).
+     */
+    protected watchStatus():void{
+        let self = this;
+        let interval:number = self._options["status-poll-interval"];
+        if(!interval || interval <= 0 || !self._initialized || !self._statusSupported || !self._driver.capabilities().status) return;
+
+        // extend the settle time window; if we are already polling there is nothing else to do
+        self._settleUntil = Date.now() + self._options["status-settle-time"];
+        if(self._statusTimer) return;
+
+        let poll = () => {
+            // the controller was closed (or is being initialized again) since the poll was scheduled
+            if(!self._initialized) {
+                self._statusTimer = null;
+                return;
+            }
+
+            self.getStatus().then((status) => {
+                self._statusFailures = 0;
+                if(status.differs(self._previousStatus)) {
+                    self._previousStatus = status;
+                    self.emit("status", status);
+                }
+
+                // continue polling while the camera is moving or within the settle time window
+                if(self._moving || status.moveStatus === CameraStatus.MOVING || Date.now() < self._settleUntil)
+                    self._statusTimer = setTimeout(poll, interval);
+                else
+                    self._statusTimer = null;
+            }).catch((error) => {
+                // a transient failure (such as a timeout) must not end status updates for good; they are
+                // only disabled if the camera rejects the request as unsupported or keeps failing
+                self._statusFailures++;
+                if(UNSUPPORTED.test(error.message) || self._statusFailures >= self._options["status-failure-limit"]) {
+                    self._statusTimer = null;
+                    self._statusSupported = false;
+                    self.emit("error", new Error("Unable to get camera status; status updates disabled: " + error.message));
+                }
+                else if(self._moving || Date.now() < self._settleUntil)
+                    self._statusTimer = setTimeout(poll, interval);
+                else
+                    self._statusTimer = null;
+            });
+        };
+        self._statusTimer = setTimeout(poll, interval);
+    }
+
+    /**
+     * Resolve a preset reference to a preset token. The reference can be:
+     *   "#n"          : controller button slot 'n'; uses the 'preset-slots' mapping configured
+     *                   for this camera or else the index into the cached presets array
+     *   "name=<text>" : the preset name (case-insensitive with fuzzy matching as a fallback)
+     *   "<token>"     : the preset token itself
+     * @param {string} token : preset reference
+     * @return {string} preset token or null if the preset could not be found
+     */
+    protected presetToken(token:string):string{
+        let presets = this._camera.presets || [];
+
+        // resolve preset names
+        if(token.toLowerCase().startsWith("name=")){
+            let preset = CameraPreset.find(presets, token.slice("name=".length));
+            return (preset) ? preset.token : null;
+        }
+
+        if(!token.startsWith("#")) return token;
+        let slot = token.slice(1);
+
+        // resolve a configured slot mapping; the mapping can be a preset token or a preset name
+        let slots = this._settings.presetSlots;
+        if(slots && slots[slot]){
+            let reference = String(slots[slot]);
+            let preset = _.find(presets, (p:CameraPreset) => p.token === reference) ||
+                         CameraPreset.find(presets, reference);
+            return (preset) ? preset.token : null;
+        }
+
+        // validate index
+        let index = parseInt(slot);
+        if(isNaN(index) || index < 0 || index >= presets.length) return null;
+
+        // now get the actual preset token from the cached presets
+        return presets[index].token;
+    }
+
+    /**
+     * Get the PRESETS stored on the camera (if the camera supports presets)
+     * @return {Promise<Array<CameraPreset>>}
+     */
+    protected loadPresets():Promise<Array<CameraPreset>>{
+        if(!this._driver.capabilities().presets) return Promise.resolve([]);
+        return this._queue.enqueue(CommandQueue.COMMAND, "getPresets", () => this._driver.getPresets());
+    }
+
     /**
      * Initialize Camera to Control
      * @param source camera soruce to control
@@ -457,92 +1067,57 @@ export class CameraController extends EventEmitter{
      */
     public initialize(source):Promise<any>{
         let self = this;
-        let ptz_supported = false;
 
-        // reset device and camera instances
-        self._device = null;
+        // release the previous camera driver and camera instance
+        if(self._driver) self._driver.close();
+        self._driver = null;
         self._camera = null;
 
+        // find the per-camera settings for this camera source (if any)
+        self._settings = CameraConfig.find(self._options["cameras"], source);
+
+        // resolve the speed curves for each axis from the global and per-camera settings
+        self._curves = {
+            pan: SpeedCurve.resolve("pan", self._options["speed"], self._settings.speed),
+            tilt: SpeedCurve.resolve("tilt", self._options["speed"], self._settings.speed),
+            zoom: SpeedCurve.resolve("zoom", self._options["speed"], self._settings.speed)
+        };
+
         return new Promise<any> ((resolve, reject) => {
             this._initialized = false;
             self.emit("uninitialized", source);
 
-            // get the URI hostname, username and password from the camera source object
-            let u = new URL(source.uri);
-            //Create an OnvifDevice object
-            self._device = new Onvif.OnvifDevice({
-                xaddr: `http://${u.hostname}/onvif/device_service`,
-                user : self._options["camera-username"] || u.username,
-                pass : self._options["camera-password"] || u.password
-            });
+            let device:any = null;
+            Promise.resolve().then(() => {
+                // create the camera driver for this camera source (ONVIF unless configured otherwise)
+                self._driver = DriverRegistry.create(DriverRegistry.select(source, self._settings), self._options);
+                self._driver.on("error", (error) => self.emit("error", error));
 
-            // initialize onvif device
-            self._device.init().then((info) => {
+                // connect to the camera and interrogate its capabilities
+                return self._driver.initialize(source, self._settings);
+            }).then((result) => {
+                device = result || {};
                 self._initialized = true;
-                self.emit("initialized", info);
+                self.emit("initialized", device.info);
 
                 // if this device supports PTZ, then interrogate the PTZ presets
-                if(self._device.services.ptz){
-                    ptz_supported = true;
-
-                    let params = {
-                        'ProfileToken': self._device.getCurrentProfile().token,
-                        'Speed': 1.0
-                    };
-
-                    // get camera presets
-                    self._device.services.ptz.getPresets(params).then((result) => {
-
-                        // iterate the SOAP preset response and build a simplified preset array
-                        // that we will pass into our new Camera object instance constructor
-                        let presets = [];
-                        if(result.data.GetPresetsResponse && result.data.GetPresetsResponse.Preset){
-                            let raw_presets:any = result.data.GetPresetsResponse.Preset;
-
-                            // the SOAP response can either be a single object instance or an array of preset instances
-                            // so we have to check to see if its an array and if not, we will make an array and
-                            // put the single item in it so we can process the response as an array
-                            if(!Array.isArray(raw_presets)){
-                                raw_presets = [ raw_presets ];
-                            }
-
-                            // process the raw preset array and add each simplified
-                            // preset object into the new presets array
-                            for (let item of raw_presets) {
-                                presets.push({
-                                    token: item.$.token,
-                                    name: item.Name });
-                            }
-                        }
-
-                        // build a camera object from the camera source, device info and PTZ presets
-                        self._camera = new Camera({
-                            source: source,
-                            info: info,
-                            ptz: ptz_supported,
-                            presets: presets
-                        });
-
-                        // return the newly created camera object to the initialize caller
-                        resolve(self._camera);
-
-                    }).catch((error) => {
-                        self.emit("error", error);
-                    });
-                }
-                else {
-                    // build a camera object from the camera source, device info and PTZ presets
-                    self._camera = new Camera({
-                        source: source,
-                        info: info,
-                        ptz: ptz_supported
-                    });
-
-                    // return the newly created camera object to the initialize caller
-                    resolve(self._camera);
-                }
+                return (self._driver.capabilities().ptz) ? self.loadPresets() : undefined;
+            }).then((presets) => {
+
+                // build a camera object from the camera source, device info and PTZ presets
+                self._camera = new Camera({
+                    source: source,
+                    info: device.info,
+                    ptz: self._driver.capabilities().ptz,
+                    presets: presets,
+                    profile: device.profile,
+                    profiles: device.profiles
+                });
+
+                // return the newly created camera object to the initialize caller
+                resolve(self._camera);
             }).catch((error) => {
-                self.emit(error);
+                self.emit("error", error);
                 reject(error);
             });
         });
@@ -550,61 +1125,31 @@ export class CameraController extends EventEmitter{
 
     /**
      * Scale the received PAN value to a speed adequate for the active camera
-     * @param {number} speed : a number between -3 and +3.
-     *                       3 = high speed
-     *                       2 = medium speed
-     *                       1 = low speed
-     *                       0 = stop
+     * using the speed curve configured for the camera's pan axis
+     * @param {number} speed : a number between -3 and +3 (fractional values are allowed)
      * @return {number} return a camera speed value from -1 to +1 (fractional)
      */
-    private static getPanSpeed(speed:number):number {
-        if(speed === -LOW_SPEED) speed = -PAN_LOW_SPEED;
-        else if(speed === -MEDIUM_SPEED) speed = -PAN_MEDIUM_SPEED;
-        else if(speed === -HIGH_SPEED) speed = -PAN_HIGH_SPEED;
-        else if(speed === LOW_SPEED) speed = PAN_LOW_SPEED;
-        else if(speed === MEDIUM_SPEED) speed = PAN_MEDIUM_SPEED;
-        else if(speed === HIGH_SPEED) speed = PAN_HIGH_SPEED;
-        else speed = 0;
-        return speed;
+    private getPanSpeed(speed:number):number {
+        return this._curves.pan.apply(speed);
     }
 
     /**
      * Scale the received TILT value to a speed adequate for the active camera
-     * @param {number} speed : a number between -3 and +3.
-     *                       3 = high speed
-     *                       2 = medium speed
-     *                       1 = low speed
-     *                       0 = stop
+     * using the speed curve configured for the camera's tilt axis
+     * @param {number} speed : a number between -3 and +3 (fractional values are allowed)
      * @return {number} return a camera speed value from -1 to +1 (fractional)
      */
-    private static getTiltSpeed(speed:number):number {
-        if(speed === -LOW_SPEED) speed = -TILT_LOW_SPEED;
-        else if(speed === -MEDIUM_SPEED) speed = -TILT_MEDIUM_SPEED;
-        else if(speed === -HIGH_SPEED) speed = -TILT_HIGH_SPEED;
-        else if(speed === LOW_SPEED) speed = TILT_LOW_SPEED;
-        else if(speed === MEDIUM_SPEED) speed = TILT_MEDIUM_SPEED;
-        else if(speed === HIGH_SPEED) speed = TILT_HIGH_SPEED;
-        else speed = 0;
-        return speed;
+    private getTiltSpeed(speed:number):number {
+        return this._curves.tilt.apply(speed);
     }
 
     /**
      * Scale the received ZOOM value to a speed adequate for the active camera
-     * @param {number} speed : a number between -3 and +3.
-     *                       3 = high speed
-     *                       2 = medium speed
-     *                       1 = low speed
-     *                       0 = stop
+     * using the speed curve configured for the camera's zoom axis
+     * @param {number} speed : a number between -3 and +3 (fractional values are allowed)
      * @return {number} return a camera speed value from -1 to +1 (fractional)
      */
-    private static getZoomSpeed(speed:number):number {
-        if(speed === -LOW_SPEED) speed = -ZOOM_LOW_SPEED;
-        else if(speed === -MEDIUM_SPEED) speed = -ZOOM_MEDIUM_SPEED;
-        else if(speed === -HIGH_SPEED) speed = -ZOOM_HIGH_SPEED;
-        else if(speed === LOW_SPEED) speed = ZOOM_LOW_SPEED;
-        else if(speed === MEDIUM_SPEED) speed = ZOOM_MEDIUM_SPEED;
-        else if(speed === HIGH_SPEED) speed = ZOOM_HIGH_SPEED;
-        else speed = 0;
-        return speed;
+    private getZoomSpeed(speed:number):number {
+        return this._curves.zoom.apply(speed);
     }
 }
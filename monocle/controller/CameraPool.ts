@@ -0,0 +1,276 @@
+/*
+ **********************************************************************
+ *             __  __  ___  _  _  ___   ___ _    ___
+ *            |  \/  |/ _ \| \| |/ _ \ / __| |  | __|
+ *            | |\/| | (_) | .` | (_) | (__| |__| _|
+ *            |_|  |_|\___/|_|\_|\___/ \___|____|___|
+ *
+ * -------------------------------------------------------------------
+ *                    MONOCLE GATEWAY SERVICE
+ * -------------------------------------------------------------------
+ *
+ *  The Monocle Gateway Service is a small service that you install
+ *  and run inside your network to order to facilitate communication
+ *  between the Monocle (cloud) platform and your cameras. This
+ *  service is required if you want to implement one of the PTZ
+ *  controllers included in the Monocle project. The Monocle Gateway
+ *  Service DOES NOT communicate ANY video or audio content to the
+ *  Internet. It's sole purpose is to provide camera control
+ *  integration for PTZ cameras.
+ *
+ * -------------------------------------------------------------------
+ *        COPYRIGHT SHADEBLUE, LLC @ 2018, ALL RIGHTS RESERVED
+ * -------------------------------------------------------------------
+ *
+ **********************************************************************
+ */
+
+'use strict';
+
+import {EventEmitter} from "events";
+import * as _ from 'underscore';
+import {Camera, CameraController, CameraSource} from "../";
+
+// Default Camera Pool Options/Configuration
+const default_options = {
+    "camera-pool-size": 8,                 // maximum number of initialized cameras to keep
+    "camera-pool-idle-timeout": 1800000    // 30 minutes
+};
+
+// camera controller events that are relayed through the pool
+const RELAYED_EVENTS = ["error", "stop", "home", "preset", "ptz", "pan", "tilt", "zoom", "absolute", "relative", "status",
+                        "presets", "setPreset", "removePreset", "setHome", "latency", "nudge"];
+
+/**
+ * Returns true if two camera sources connect to the camera at the same URI with the same credentials
+ * @param {CameraSource} a
+ * @param {CameraSource} b
+ * @return {boolean}
+ */
+function sameConnection(a:CameraSource, b:CameraSource):boolean {
+    return a.uri === b.uri && a.username === b.username && a.password === b.password;
+}
+
+/**
+ * This class maintains a pool of initialized camera controllers (one per
+ * camera source) so that switching back to a previously used camera does
+ * not require the ONVIF device to be interrogated again.
+ */
+export class CameraPool extends EventEmitter{
+
+    protected readonly _options:any;
+    protected readonly _controllers:Map<string, CameraController> = new Map();
+    protected readonly _pending:Map<string, any> = new Map();
+    protected readonly _lastUsed:Map<string, number> = new Map();
+    protected _active:string = null;
+    protected _timer:any = null;
+
+    /**
+     * Default Constructor
+     */
+    public constructor(options?:any|undefined){
+        super();
+
+        // apply provided options; merge with defaults
+        if(options)
+            this._options = _.defaults(options, default_options);
+        else
+            this._options = default_options;
+
+        // periodically evict camera controllers that have not been used recently
+        let timeout:number = this._options["camera-pool-idle-timeout"];
+        if(timeout > 0) {
+            this._timer = setInterval(() => {
+                this.evictIdle();
+            }, Math.min(timeout, 60000));
+            this._timer.unref();
+        }
+    }
+
+    /**
+     * Returns the number of camera controllers currently held in the pool
+     * @return {number}
+     */
+    public size():number{
+        return this._controllers.size;
+    }
+
+    /**
+     * Returns the camera instances for all initialized cameras in the pool
+     * @return {Array<Camera>}
+     */
+    public cameras():Array<Camera>{
+        let cameras:Array<Camera> = [];
+        this._controllers.forEach((controller) => {
+            if(controller.camera()) cameras.push(controller.camera());
+        });
+        return cameras;
+    }
+
+    /**
+     * Returns the unique identifier of the active camera
+     * @return {string}
+     */
+    public activeCamera():string{
+        return this._active;
+    }
+
+    /**
+     * Returns the camera controller for the requested camera; if no camera
+     * identifier is provided, then the active camera controller is returned.
+     * @param {string} uuid : (optional) camera source unique identifier
+     * @return {CameraController} camera controller or null if the camera is not in the pool
+     */
+    public controller(uuid?:string):CameraController{
+        if(!uuid) uuid = this._active;
+        if(!uuid || !this._controllers.has(uuid)) return null;
+        this._lastUsed.set(uuid, Date.now());
+        return this._controllers.get(uuid);
+    }
+
+    /**
+     * Initialize (or reuse) the camera controller for the given camera
+     * source and make it the active camera.
+     * @param {CameraSource} source camera source to control
+     * @return {Promise<Camera>} return promise with the initialized camera
+     */
+    public activate(source:CameraSource):Promise<Camera>{
+        this._active = source.uuid;
+        return this.initialize(source);
+    }
+
+    /**
+     * Initialize (or reuse) the camera controller for the given camera source.
+     * @param {CameraSource} source camera source to control
+     * @return {Promise<Camera>} return promise with the initialized camera
+     */
+    public initialize(source:CameraSource):Promise<Camera>{
+        let self = this;
+        let uuid = source.uuid;
+        self._lastUsed.set(uuid, Date.now());
+
+        // if an initialization is already in progress for this camera, then share it;
+        // an initialization of a changed camera source is cancelled and restarted
+        let current = self._pending.get(uuid);
+        if(current && sameConnection(current.source, source)){
+            return current.promise;
+        }
+        if(current){
+            current.cancelled = true;
+            self._pending.delete(uuid);
+        }
+
+        // if this camera has already been initialized with the same
+        // connection URI and credentials, then return the cached camera instance
+        let existing = self._controllers.get(uuid);
+        if(existing && existing.isInitialized() && existing.camera() &&
+           sameConnection(existing.camera().source(), source)){
+            return Promise.resolve(existing.camera());
+        }
+
+        // the camera source has changed or has never been initialized
+        if(existing) self.remove(uuid);
+
+        let controller = new CameraController(self._options);
+        self.relay(controller);
+
+        // the callers of a cancelled initialization are handed over to the initialization of the changed source
+        let entry:any = { source: source, cancelled: false, promise: null };
+        let handover = ():Promise<Camera> => {
+            controller.close();
+            controller.removeAllListeners();
+            let latest = self._pending.get(uuid);
+            if(latest) return latest.promise;
+            let replaced = self._controllers.get(uuid);
+            return (replaced && replaced.camera()) ? Promise.resolve(replaced.camera()) :
+                Promise.reject(new Error("Camera source changed during initialization"));
+        };
+
+        entry.promise = controller.initialize(source).then((camera:Camera) => {
+            if(entry.cancelled) return handover();
+            self._pending.delete(uuid);
+            self._controllers.set(uuid, controller);
+            self.emit("added", camera);
+            self.evictOverflow();
+            return camera;
+        }, (error) => {
+            if(entry.cancelled) return handover();
+            self._pending.delete(uuid);
+            controller.close();
+            controller.removeAllListeners();
+            throw error;
+        });
+        self._pending.set(uuid, entry);
+        return entry.promise;
+    }
+
+    /**
+     * Remove a camera controller from the pool.
+     * @param {string} uuid : camera source unique identifier
+     * @return {boolean} true if the camera was removed
+     */
+    public remove(uuid:string):boolean{
+        let controller = this._controllers.get(uuid);
+        if(!controller) return false;
+
+        this._controllers.delete(uuid);
+        this._lastUsed.delete(uuid);
+        controller.close();
+        controller.removeAllListeners();
+        this.emit("removed", uuid);
+        return true;
+    }
+
+    /**
+     * Remove all camera controllers from the pool and stop the idle eviction timer
+     */
+    public close():void{
+        if(this._timer) clearInterval(this._timer);
+        this._timer = null;
+        Array.from(this._controllers.keys()).forEach((uuid) => this.remove(uuid));
+    }
+
+    /**
+     * Relay the events raised by a pooled camera controller to pool listeners
+     * @param {CameraController} controller
+     */
+    private relay(controller:CameraController):void{
+        let self = this;
+        RELAYED_EVENTS.forEach((event) => {
+            controller.on(event, (...args:any[]) => {
+                self.emit(event, ...args);
+            });
+        });
+    }
+
+    /**
+     * Evict the least recently used camera controllers (never the active
+     * camera) when the pool has grown beyond its configured capacity.
+     */
+    private evictOverflow():void{
+        let capacity:number = this._options["camera-pool-size"];
+        while(this._controllers.size > Math.max(capacity, 1)){
+            let candidate:string = null;
+            this._controllers.forEach((controller, uuid) => {
+                if(uuid === this._active) return;
+                if(!candidate || this._lastUsed.get(uuid) < this._lastUsed.get(candidate))
+                    candidate = uuid;
+            });
+            if(!candidate) return;
+            this.remove(candidate);
+        }
+    }
+
+    /**
+     * Evict all camera controllers (except the active camera) that have
+     * not been used within the configured idle timeout.
+     */
+    private evictIdle():void{
+        let timeout:number = this._options["camera-pool-idle-timeout"];
+        let now = Date.now();
+        Array.from(this._controllers.keys()).forEach((uuid) => {
+            if(uuid !== this._active && (now - this._lastUsed.get(uuid)) > timeout)
+                this.remove(uuid);
+        });
+    }
+}
@@ -0,0 +1,200 @@
+/*
+ **********************************************************************
+ *             __  __  ___  _  _  ___   ___ _    ___
+ *            |  \/  |/ _ \| \| |/ _ \ / __| |  | __|
+ *            | |\/| | (_) | .` | (_) | (__| |__| _|
+ *            |_|  |_|\___/|_|\_|\___/ \___|____|___|
+ *
+ * -------------------------------------------------------------------
+ *                    MONOCLE GATEWAY SERVICE
+ * -------------------------------------------------------------------
+ *
+ *  The Monocle Gateway Service is a small service that you install
+ *  and run inside your network to order to facilitate communication
+ *  between the Monocle (cloud) platform and your cameras. This
+ *  service is required if you want to implement one of the PTZ
+ *  controllers included in the Monocle project. The Monocle Gateway
+ *  Service DOES NOT communicate ANY video or audio content to the
+ *  Internet. It's sole purpose is to provide camera control
+ *  integration for PTZ cameras.
+ *
+ * -------------------------------------------------------------------
+ *        COPYRIGHT SHADEBLUE, LLC @ 2018, ALL RIGHTS RESERVED
+ * -------------------------------------------------------------------
+ *
+ **********************************************************************
+ */
+
+'use strict';
+
+import {EventEmitter} from "events";
+import * as _ from 'underscore';
+
+// Default Command Queue Options/Configuration
+const default_options = {
+    "command-latency-warning": 500   // commands that take longer than this (queued + sent) are reported as slow
+};
+
+/**
+ * This class serializes the requests sent to a single camera; only one
+ * request is in flight at a time. Pending velocity updates are coalesced
+ * so that only the newest one is sent, a stop is always sent ahead of any
+ * other pending request (pending velocity updates and motion commands are
+ * discarded) and pending status queries are shared. A 'latency'
+ * event is emitted after each request with the time it spent queued and
+ * the time the camera took to respond.
+ */
+export class CommandQueue extends EventEmitter{
+
+    public static readonly STOP:string = "stop";
+    public static readonly VELOCITY:string = "velocity";
+    public static readonly STATUS:string = "status";
+    public static readonly MOTION:string = "motion";
+    public static readonly COMMAND:string = "command";
+
+    // result of a request that was replaced by a newer request before it was sent
+    public static readonly SUPERSEDED:string = "superseded";
+
+    protected readonly _options:any;
+    protected _pending:Array<any> = [];
+    protected _busy:boolean = false;
+    protected _executed:number = 0;
+    protected _coalesced:number = 0;
+    protected _totalWait:number = 0;
+    protected _totalDuration:number = 0;
+    protected _maxWait:number = 0;
+
+    /**
+     * Default Constructor
+     */
+    public constructor(options?:any|undefined){
+        super();
+
+        // apply provided options; merge with defaults
+        if(options)
+            this._options = _.defaults(options, default_options);
+        else
+            this._options = default_options;
+    }
+
+    /**
+     * Queue a request for the camera
+     * @param {string} kind : STOP, VELOCITY, STATUS, MOTION (moves the camera) or COMMAND
+     * @param {string} name : request name (used for latency reporting)
+     * @param {() => Promise<any>} task : function that sends the request to the camera
+     * @return {Promise<any>} resolved with the request result (or SUPERSEDED if it was replaced by a newer request or discarded by a stop)
+     */
+    public enqueue(kind:string, name:string, task:() => Promise<any>):Promise<any>{
+        return new Promise<any>((resolve, reject) => {
+            let waiter = { resolve: resolve, reject: reject };
+            let existing = _.find(this._pending, (e:any) => e.kind === kind);
+
+            // pending status queries and stops are shared by all callers
+            if(existing && (kind === CommandQueue.STATUS || kind === CommandQueue.STOP)){
+                existing.waiters.push(waiter);
+                this._coalesced++;
+                return;
+            }
+
+            let entry = { kind: kind, name: name, task: task, queued: Date.now(), waiters: [waiter] };
+
+            // the newest velocity update replaces a pending one (in its place in the queue)
+            if(existing && kind === CommandQueue.VELOCITY){
+                this.supersede(existing);
+                this._pending[this._pending.indexOf(existing)] = entry;
+            }
+
+            // a stop goes ahead of everything else; pending velocity updates and motion commands are discarded
+            else if(kind === CommandQueue.STOP){
+                this._pending = this._pending.filter((e) => {
+                    if(e.kind !== CommandQueue.VELOCITY && e.kind !== CommandQueue.MOTION) return true;
+                    this.supersede(e);
+                    return false;
+                });
+                this._pending.unshift(entry);
+            }
+            else {
+                this._pending.push(entry);
+            }
+            this.next();
+        });
+    }
+
+    /**
+     * Returns true if a request of the given kind is waiting to be sent
+     * @param {string} kind
+     * @return {boolean}
+     */
+    public pending(kind:string):boolean{
+        return this._pending.some((e) => e.kind === kind);
+    }
+
+    /**
+     * Returns the queue statistics
+     * @return {any} { pending, executed, coalesced, averageWait, maxWait, averageDuration } (times in milliseconds)
+     */
+    public stats():any{
+        return {
+            pending: this._pending.length,
+            executed: this._executed,
+            coalesced: this._coalesced,
+            averageWait: (this._executed) ? Math.round(this._totalWait / this._executed) : 0,
+            maxWait: this._maxWait,
+            averageDuration: (this._executed) ? Math.round(this._totalDuration / this._executed) : 0
+        };
+    }
+
+    /**
+     * Reject all pending requests
+     * @param {Error} error
+     */
+    public clear(error:Error):void{
+        let pending = this._pending;
+        this._pending = [];
+        pending.forEach((e) => e.waiters.forEach((w) => w.reject(error)));
+    }
+
+    /**
+     * Resolve the callers of a request that was replaced before it was sent
+     * @param entry : queued request
+     */
+    protected supersede(entry:any):void{
+        this._coalesced++;
+        entry.waiters.forEach((w) => w.resolve(CommandQueue.SUPERSEDED));
+    }
+
+    /**
+     * Send the next pending request if no request is in flight
+     */
+    protected next():void{
+        if(this._busy || this._pending.length === 0) return;
+
+        let entry = this._pending.shift();
+        let started = Date.now();
+        this._busy = true;
+
+        let done = (err:any, result?:any) => {
+            let wait = started - entry.queued;
+            let duration = Date.now() - started;
+            this._busy = false;
+            this._executed++;
+            this._totalWait += wait;
+            this._totalDuration += duration;
+            this._maxWait = Math.max(this._maxWait, wait);
+
+            if(err) entry.waiters.forEach((w) => w.reject(err));
+            else entry.waiters.forEach((w) => w.resolve(result));
+
+            this.emit("latency", {
+                command: entry.name,
+                wait: wait,
+                duration: duration,
+                pending: this._pending.length,
+                slow: (wait + duration) > this._options["command-latency-warning"]
+            });
+            this.next();
+        };
+
+        Promise.resolve().then(entry.task).then((result) => done(null, result), (err) => done(err));
+    }
+}
@@ -0,0 +1,270 @@
+/*
+ **********************************************************************
+ *             __  __  ___  _  _  ___   ___ _    ___
+ *            |  \/  |/ _ \| \| |/ _ \ / __| |  | __|
+ *            | |\/| | (_) | .` | (_) | (__| |__| _|
+ *            |_|  |_|\___/|_|\_|\___/ \___|____|___|
+ *
+ * -------------------------------------------------------------------
+ *                    MONOCLE GATEWAY SERVICE
+ * -------------------------------------------------------------------
+ *
+ *  The Monocle Gateway Service is a small service that you install
+ *  and run inside your network to order to facilitate communication
+ *  between the Monocle (cloud) platform and your cameras. This
+ *  service is required if you want to implement one of the PTZ
+ *  controllers included in the Monocle project. The Monocle Gateway
+ *  Service DOES NOT communicate ANY video or audio content to the
+ *  Internet. It's sole purpose is to provide camera control
+ *  integration for PTZ cameras.
+ *
+ * -------------------------------------------------------------------
+ *        COPYRIGHT SHADEBLUE, LLC @ 2018, ALL RIGHTS RESERVED
+ * -------------------------------------------------------------------
+ *
+ **********************************************************************
+ */
+
+'use strict';
+
+import {EventEmitter} from "events";
+import * as _ from 'underscore';
+import {CameraController, CameraStatus, PresetTour} from "../";
+
+// Default Tour Controller Options/Configuration
+const default_options = {
+    "tours": [],
+    "tour-travel-timeout": 15000   // maximum time to wait for a camera to arrive at a preset
+};
+
+// the camera status is checked periodically to detect arrival at a preset; status
+// received within the grace period after the move started may predate the move
+const ARRIVAL_CHECK_INTERVAL:number = 250;
+const ARRIVAL_GRACE:number = 1000;
+
+/**
+ * This class is responsible for running preset patrol tours on cameras;
+ * at most one tour can run on each camera at a time. Progress is reported
+ * using 'progress' events.
+ */
+export class TourController extends EventEmitter{
+
+    protected readonly _options:any;
+    protected readonly _tours:Map<string, PresetTour> = new Map();
+    protected readonly _running:Map<string, any> = new Map();
+
+    /**
+     * Default Constructor
+     */
+    public constructor(options?:any|undefined){
+        super();
+
+        // apply provided options; merge with defaults
+        if(options)
+            this._options = _.defaults(options, default_options);
+        else
+            this._options = default_options;
+
+        // load the tours defined in the configuration
+        for(let tour of this._options["tours"] || []){
+            this.define(new PresetTour(tour));
+        }
+    }
+
+    /**
+     * Returns all defined tours
+     * @return {Array<PresetTour>}
+     */
+    public tours():Array<PresetTour>{
+        return Array.from(this._tours.values());
+    }
+
+    /**
+     * Define (or replace) a tour
+     * @param {PresetTour} tour
+     */
+    public define(tour:PresetTour):void{
+        if(!tour.name || tour.steps.length === 0)
+            throw new Error("Unable to define tour; a tour requires a name and at least one step.");
+        this._tours.set(tour.name.toLowerCase(), tour);
+        this.emit("tours", this.tours());
+    }
+
+    /**
+     * Remove a tour definition; the tour is stopped on any camera running it
+     * @param {string} name : tour name
+     * @return {boolean} true if the tour was removed
+     */
+    public remove(name:string):boolean{
+        let tour = this._tours.get(name.toLowerCase());
+        if(!tour) return false;
+
+        this._running.forEach((run, uuid) => {
+            if(run.tour === tour) this.stop(uuid);
+        });
+        this._tours.delete(name.toLowerCase());
+        this.emit("tours", this.tours());
+        return true;
+    }
+
+    /**
+     * Returns the name of the tour running on a camera
+     * @param {string} uuid : camera source unique identifier
+     * @return {string} tour name or null if no tour is running
+     */
+    public running(uuid:string):string{
+        let run = this._running.get(uuid);
+        return (run) ? run.tour.name : null;
+    }
+
+    /**
+     * Start a tour on a camera; any tour already running on the camera is stopped.
+     * @param {string} name : tour name
+     * @param {CameraController} controller : controller of the camera to run the tour on
+     * @return {Promise<void>} resolved when the tour has started
+     */
+    public start(name:string, controller:CameraController):Promise<void>{
+        let tour = this._tours.get((name || "").toLowerCase());
+        if(!tour)
+            return Promise.reject(new Error("Unable to start tour; unknown tour: " + name));
+        if(!controller.camera() || !controller.camera().ptz)
+            return Promise.reject(new Error("Unable to start tour; the camera does not support PTZ."));
+
+        let uuid = controller.camera().uuid;
+        this.stop(uuid);
+
+        let run = { tour: tour, controller: controller, step: -1, timer: null, interval: null };
+        this._running.set(uuid, run);
+        this.progress(run, "started");
+        this.next(run);
+        return Promise.resolve();
+    }
+
+    /**
+     * Stop the tour running on a camera
+     * @param {string} uuid : camera source unique identifier
+     * @return {boolean} true if a tour was stopped
+     */
+    public stop(uuid:string):boolean{
+        let run = this._running.get(uuid);
+        if(!run) return false;
+
+        this.release(run);
+        this.progress(run, "stopped");
+        return true;
+    }
+
+    /**
+     * Stop all running tours
+     */
+    public close():void{
+        Array.from(this._running.keys()).forEach((uuid) => this.stop(uuid));
+    }
+
+    /**
+     * Move the camera to the next preset in the tour, wait for it to arrive
+     * and then dwell for the configured time.
+     * @param run : tour run state
+     */
+    private next(run:any):void{
+        let self = this;
+        if(!self.isActive(run)) return;
+
+        // advance to the next step; at the end of the tour either loop or complete
+        run.step++;
+        if(run.step >= run.tour.steps.length){
+            if(!run.tour.loop){
+                run.step = run.tour.steps.length - 1;
+                self.release(run);
+                self.progress(run, "completed");
+                return;
+            }
+            run.step = 0;
+        }
+
+        let step = run.tour.steps[run.step];
+        self.progress(run, "moving");
+        run.controller.gotoPreset(step.preset, step.speed).then(() => {
+            return self.arrival(run);
+        }).then(() => {
+            if(!self.isActive(run)) return;
+            self.progress(run, "dwelling");
+            run.timer = setTimeout(() => {
+                run.timer = null;
+                self.next(run);
+            }, step.dwell * 1000);
+        }).catch((error:Error) => {
+            if(!self.isActive(run)) return;
+            self.release(run);
+            self.progress(run, "error", error.message);
+        });
+    }
+
+    /**
+     * Wait for the camera to report that it has stopped moving; if the camera
+     * does not report its status, then wait for the travel timeout.
+     * @param run : tour run state
+     * @return {Promise<void>}
+     */
+    private arrival(run:any):Promise<void>{
+        let started = Date.now();
+        return new Promise<void>((resolve) => {
+            let done = () => {
+                if(run.timer) clearTimeout(run.timer);
+                if(run.interval) clearInterval(run.interval);
+                run.timer = null;
+                run.interval = null;
+                resolve();
+            };
+
+            // the camera has arrived once a status received after the move started reports IDLE
+            run.interval = setInterval(() => {
+                let status:CameraStatus = run.controller.status();
+                if(status && status.timestamp.getTime() > started + ARRIVAL_GRACE &&
+                   status.moveStatus === CameraStatus.IDLE) done();
+            }, ARRIVAL_CHECK_INTERVAL);
+            run.timer = setTimeout(done, this._options["tour-travel-timeout"]);
+        });
+    }
+
+    /**
+     * Returns true if the tour run is still the active tour for its camera
+     * @param run : tour run state
+     * @return {boolean}
+     */
+    private isActive(run:any):boolean{
+        return this._running.get(run.controller.camera().uuid) === run;
+    }
+
+    /**
+     * Release the timers held by a tour run and remove it from the running tours
+     * @param run : tour run state
+     */
+    private release(run:any):void{
+        if(run.timer) clearTimeout(run.timer);
+        if(run.interval) clearInterval(run.interval);
+        run.timer = null;
+        run.interval = null;
+        if(this.isActive(run)) this._running.delete(run.controller.camera().uuid);
+    }
+
+    /**
+     * Emit a tour progress event
+     * @param run : tour run state
+     * @param {string} state : started, moving, dwelling, completed, stopped or error
+     * @param {string} error : (optional) error message
+     */
+    private progress(run:any, state:string, error?:string):void{
+        let step = (run.step >= 0) ? run.tour.steps[run.step] : null;
+        let progress:any = {
+            camera: run.controller.camera().uuid,
+            tour: run.tour.name,
+            state: state,
+            step: run.step + 1,
+            steps: run.tour.steps.length
+        };
+        if(step) progress.preset = step.preset;
+        if(error) progress.error = error;
+        this.emit("progress", progress);
+    }
+}
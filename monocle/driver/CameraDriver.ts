@@ -0,0 +1,156 @@
+/*
+ **********************************************************************
+ *             __  __  ___  _  _  ___   ___ _    ___
+ *            |  \/  |/ _ \| \| |/ _ \ / __| |  | __|
+ *            | |\/| | (_) | .` | (_) | (__| |__| _|
+ *            |_|  |_|\___/|_|\_|\___/ \___|____|___|
+ *
+ * -------------------------------------------------------------------
+ *                    MONOCLE GATEWAY SERVICE
+ * -------------------------------------------------------------------
+ *
+ *  The Monocle Gateway Service is a small service that you install
+ *  and run inside your network to order to facilitate communication
+ *  between the Monocle (cloud) platform and your cameras. This
+ *  service is required if you want to implement one of the PTZ
+ *  controllers included in the Monocle project. The Monocle Gateway
+ *  Service DOES NOT communicate ANY video or audio content to the
+ *  Internet. It's sole purpose is to provide camera control
+ *  integration for PTZ cameras.
+ *
+ * -------------------------------------------------------------------
+ *        COPYRIGHT SHADEBLUE, LLC @ 2018, ALL RIGHTS RESERVED
+ * -------------------------------------------------------------------
+ *
+ **********************************************************************
+ */
+
+
+'use strict';
+
+import {EventEmitter} from "events";
+import {CameraConfig, CameraPreset, CameraSource} from "../";
+
+/**
+ * PTZ capabilities of a camera; reported by its driver once initialized
+ */
+export interface DriverCapabilities {
+    ptz: boolean;          // continuous moves and stop
+    absolute: boolean;     // absolute moves
+    relative: boolean;     // relative moves
+    calibrated: boolean;   // the camera reported its own coordinate ranges (positions and translations are accurate)
+    status: boolean;       // position and movement status requests
+    presets: boolean;      // stored presets
+    home: boolean;         // home position
+}
+
+/**
+ * A camera driver implements the PTZ control protocol of a camera. All
+ * positions, translations and velocities are normalized: pan and tilt range
+ * from -1 to +1, zoom positions from 0 to +1 and zoom translations and
+ * velocities from -1 to +1. The camera controller serializes all requests
+ * to a driver; a driver never receives concurrent requests. Drivers emit an
+ * 'error' event for problems that do not fail a request.
+ */
+export interface CameraDriver extends EventEmitter {
+
+    /**
+     * Connect to the camera and interrogate its capabilities
+     * @param {CameraSource} source : camera source to control
+     * @param {CameraConfig} settings : per-camera settings
+     * @return {Promise<any>} return promise with { info, profile, profiles } (profiles are optional)
+     */
+    initialize(source:CameraSource, settings:CameraConfig):Promise<any>;
+
+    /**
+     * Returns the PTZ capabilities of the initialized camera
+     * @return {DriverCapabilities}
+     */
+    capabilities():DriverCapabilities;
+
+    /**
+     * Start (or update) a continuous move; the camera should stop on its own
+     * if the move is not refreshed before the 'ptz-move-timeout' expires
+     * @param {number} pan : velocity between -1 and +1
+     * @param {number} tilt : velocity between -1 and +1
+     * @param {number} zoom : velocity between -1 and +1
+     * @return {Promise<void>}
+     */
+    continuousMove(pan:number, tilt:number, zoom:number):Promise<void>;
+
+    /**
+     * Stop all movement
+     * @return {Promise<void>}
+     */
+    stop():Promise<void>;
+
+    /**
+     * Move to an absolute position; an omitted axis keeps its current position
+     * @param {number} pan : position between -1 and +1
+     * @param {number} tilt : position between -1 and +1
+     * @param {number} zoom : position between 0 and +1
+     * @return {Promise<void>}
+     */
+    absoluteMove(pan?:number, tilt?:number, zoom?:number):Promise<void>;
+
+    /**
+     * Move relative to the current position
+     * @param {number} pan : translation between -1 and +1
+     * @param {number} tilt : translation between -1 and +1
+     * @param {number} zoom : translation between -1 and +1
+     * @return {Promise<void>}
+     */
+    relativeMove(pan:number, tilt:number, zoom:number):Promise<void>;
+
+    /**
+     * Move to the home position
+     * @return {Promise<void>}
+     */
+    gotoHome():Promise<void>;
+
+    /**
+     * Store the current position as the home position
+     * @return {Promise<void>}
+     */
+    setHome():Promise<void>;
+
+    /**
+     * Get the presets stored on the camera
+     * @return {Promise<Array<CameraPreset>>}
+     */
+    getPresets():Promise<Array<CameraPreset>>;
+
+    /**
+     * Move to a stored preset
+     * @param {string} token : preset token
+     * @param {number} speed : travel speed between 0 and +1
+     * @return {Promise<void>}
+     */
+    gotoPreset(token:string, speed:number):Promise<void>;
+
+    /**
+     * Store the current position as a preset
+     * @param {string} name : preset name
+     * @param {string} token : (optional) token of the preset to overwrite
+     * @return {Promise<string>} return promise with the preset token
+     */
+    setPreset(name:string, token?:string):Promise<string>;
+
+    /**
+     * Remove a stored preset
+     * @param {string} token : preset token
+     * @return {Promise<void>}
+     */
+    removePreset(token:string):Promise<void>;
+
+    /**
+     * Get the current position and movement status
+     * @return {Promise<any>} return promise with { pan, tilt, zoom, moving } (moving is null if not reported)
+     */
+    getStatus():Promise<any>;
+
+    /**
+     * Release any resources (connections and timers) held by the driver
+     */
+    close():void;
+}
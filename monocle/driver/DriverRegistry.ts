@@ -0,0 +1,98 @@
+/*
+ **********************************************************************
+ *             __  __  ___  _  _  ___   ___ _    ___
+ *            |  \/  |/ _ \| \| |/ _ \ / __| |  | __|
+ *            | |\/| | (_) | .` | (_) | (__| |__| _|
+ *            |_|  |_|\___/|_|\_|\___/ \___|____|___|
+ *
+ * -------------------------------------------------------------------
+ *                    MONOCLE GATEWAY SERVICE
+ * -------------------------------------------------------------------
+ *
+ *  The Monocle Gateway Service is a small service that you install
+ *  and run inside your network to order to facilitate communication
+ *  between the Monocle (cloud) platform and your cameras. This
+ *  service is required if you want to implement one of the PTZ
+ *  controllers included in the Monocle project. The Monocle Gateway
+ *  Service DOES NOT communicate ANY video or audio content to the
+ *  Internet. It's sole purpose is to provide camera control
+ *  integration for PTZ cameras.
+ *
+ * -------------------------------------------------------------------
+ *        COPYRIGHT SHADEBLUE, LLC @ 2018, ALL RIGHTS RESERVED
+ * -------------------------------------------------------------------
+ *
+ **********************************************************************
+ */
+
+
+'use strict';
+
+import {CameraConfig, CameraSource} from "../";
+import {CameraDriver} from "./CameraDriver";
+import {OnvifDriver} from "./OnvifDriver";
+import {PelcoDriver} from "./PelcoDriver";
+import {SimulatedDriver} from "./SimulatedDriver";
+import {ViscaDriver} from "./ViscaDriver";
+
+// camera driver factories by (lower case) protocol name
+const drivers:Map<string, (options:any) => CameraDriver> = new Map();
+drivers.set("onvif", (options) => new OnvifDriver(options));
+drivers.set("visca", (options) => new ViscaDriver(options));
+drivers.set(PelcoDriver.PELCO_D, (options) => new PelcoDriver(PelcoDriver.PELCO_D, options));
+drivers.set(PelcoDriver.PELCO_P, (options) => new PelcoDriver(PelcoDriver.PELCO_P, options));
+drivers.set("simulated", (options) => new SimulatedDriver(options));
+
+/**
+ * This class keeps the camera drivers available to the camera controllers
+ * and selects the driver used for each camera. The driver configured for a
+ * camera ('driver' in the per-camera settings) takes precedence; otherwise
+ * the camera source protocol is used if a driver is registered for it, else
+ * the ONVIF driver is used.
+ */
+export class DriverRegistry{
+
+    public static readonly DEFAULT:string = "onvif";
+
+    /**
+     * Register a camera driver
+     * @param {string} protocol : driver (protocol) name
+     * @param {(options:any) => CameraDriver} factory : creates a driver instance with the gateway options
+     */
+    public static register(protocol:string, factory:(options:any) => CameraDriver):void{
+        drivers.set(protocol.toLowerCase(), factory);
+    }
+
+    /**
+     * Returns the names of the registered camera drivers
+     * @return {Array<string>}
+     */
+    public static protocols():Array<string>{
+        return Array.from(drivers.keys());
+    }
+
+    /**
+     * Select the camera driver for a camera source
+     * @param {CameraSource} source
+     * @param {CameraConfig} settings : per-camera settings
+     * @return {string} driver (protocol) name
+     */
+    public static select(source:CameraSource, settings:CameraConfig):string{
+        if(settings && settings.driver) return settings.driver.toLowerCase();
+        if(source && source.protocol && drivers.has(source.protocol.toLowerCase())) return source.protocol.toLowerCase();
+        return DriverRegistry.DEFAULT;
+    }
+
+    /**
+     * Create a camera driver
+     * @param {string} protocol : driver (protocol) name
+     * @param options : gateway options
+     * @return {CameraDriver}
+     * @throws {Error} if no driver is registered for the protocol
+     */
+    public static create(protocol:string, options:any):CameraDriver{
+        let factory = drivers.get((protocol || DriverRegistry.DEFAULT).toLowerCase());
+        if(!factory) throw new Error("Unknown camera driver: " + protocol + " (available: " + DriverRegistry.protocols().join(", ") + ")");
+        return factory(options);
+    }
+}
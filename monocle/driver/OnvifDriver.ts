@@ -0,0 +1,547 @@
+/*
+ **********************************************************************
+ *             __  __  ___  _  _  ___   ___ _    ___
+ *            |  \/  |/ _ \| \| |/ _ \ / __| |  | __|
+ *            | |\/| | (_) | .` | (_) | (__| |__| _|
+ *            |_|  |_|\___/|_|\_|\___/ \___|____|___|
+ *
+ * -------------------------------------------------------------------
+ *                    MONOCLE GATEWAY SERVICE
+ * -------------------------------------------------------------------
+ *
+ *  The Monocle Gateway Service is a small service that you install
+ *  and run inside your network to order to facilitate communication
+ *  between the Monocle (cloud) platform and your cameras. This
+ *  service is required if you want to implement one of the PTZ
+ *  controllers included in the Monocle project. The Monocle Gateway
+ *  Service DOES NOT communicate ANY video or audio content to the
+ *  Internet. It's sole purpose is to provide camera control
+ *  integration for PTZ cameras.
+ *
+ * -------------------------------------------------------------------
+ *        COPYRIGHT SHADEBLUE, LLC @ 2018, ALL RIGHTS RESERVED
+ * -------------------------------------------------------------------
+ *
+ **********************************************************************
+ */
+
+
+'use strict';
+
+import {EventEmitter} from "events";
+import * as Onvif from 'node-onvif';
+import * as _ from 'underscore';
+import { URL } from 'url';
+import {CameraConfig, CameraPreset, CameraProfile, CameraSource} from "../";
+import {CameraDriver, DriverCapabilities} from "./CameraDriver";
+import {OnvifEndpoint} from "./OnvifEndpoint";
+import {clamp, isNumber} from "../util/Numbers";
+
+// Default ONVIF Driver Options/Configuration
+const default_options = {
+    "ptz-move-timeout": 2          // continuous moves stop on their own after 2 seconds
+};
+
+// Generic ONVIF PTZ coordinate spaces; used when a camera does not advertise its own spaces
+const GENERIC_SPACES = {
+    absolute: {
+        pan:  { min: -1, max: 1 },
+        tilt: { min: -1, max: 1 },
+        zoom: { min: 0,  max: 1 }
+    },
+    relative: {
+        pan:  { min: -1, max: 1 },
+        tilt: { min: -1, max: 1 },
+        zoom: { min: -1, max: 1 }
+    }
+};
+
+/**
+ * Scale a normalized position (from 'low' to +1) into a camera coordinate range
+ * @param {number} value : normalized position
+ * @param {number} low : lowest normalized position (-1 for pan/tilt; 0 for zoom)
+ * @param range : camera coordinate range { min, max }
+ * @return {number} camera coordinate
+ */
+function toCameraSpace(value:number, low:number, range:any):number {
+    value = clamp(value, low, 1);
+    return range.min + ((value - low) / (1 - low)) * (range.max - range.min);
+}
+
+/**
+ * Scale a normalized translation (from -1 to +1) into a camera translation range;
+ * zero always maps to zero (no movement) regardless of the range symmetry.
+ * @param {number} value : normalized translation
+ * @param range : camera translation range { min, max }
+ * @return {number} camera translation
+ */
+function toTranslationSpace(value:number, range:any):number {
+    value = clamp(value, -1, 1);
+    return (value >= 0) ? value * range.max : -value * range.min;
+}
+
+/**
+ * Scale a camera coordinate back into a normalized position (from 'low' to +1)
+ * @param {number} value : camera coordinate
+ * @param {number} low : lowest normalized position (-1 for pan/tilt; 0 for zoom)
+ * @param range : camera coordinate range { min, max }
+ * @return {number} normalized position
+ */
+function fromCameraSpace(value:number, low:number, range:any):number {
+    if(range.max === range.min) return low;
+    return clamp(low + ((value - range.min) / (range.max - range.min)) * (1 - low), low, 1);
+}
+
+/**
+ * Parse the coordinate range of an ONVIF space element; if the camera advertises
+ * multiple spaces of the same kind, then the generic space is preferred.
+ * @param element : SOAP space element (or array of elements)
+ * @param {string} axis : 'XRange' or 'YRange'
+ * @return { min, max } or null if the space is not advertised or its range is not numeric
+ */
+function parseSpace(element:any, axis:string):any {
+    if(!element) return null;
+    let spaces = Array.isArray(element) ? element : [ element ];
+    let space = _.find(spaces, (s:any) => s.URI && s.URI.indexOf("GenericSpace") >= 0) || spaces[0];
+    if(!space || !space[axis]) return null;
+    let range = { min: parseFloat(space[axis].Min), max: parseFloat(space[axis].Max) };
+    return (isNaN(range.min) || isNaN(range.max)) ? null : range;
+}
+
+/**
+ * This driver communicates with network/IP cameras via the ONVIF protocol
+ */
+export class OnvifDriver extends EventEmitter implements CameraDriver{
+
+    protected readonly _options:any;
+    protected _device:Onvif = null;
+    protected _endpoint:OnvifEndpoint = null;
+    protected _settings:CameraConfig = null;
+    protected _ptzConfiguration:string = null;
+    protected _spaces:any = GENERIC_SPACES;
+
+    /**
+     * Default Constructor
+     */
+    public constructor(options?:any|undefined){
+        super();
+
+        // apply provided options; merge with defaults
+        if(options)
+            this._options = _.defaults(options, default_options);
+        else
+            this._options = default_options;
+    }
+
+    /**
+     * Resolve the ONVIF device service address, initialize the ONVIF device,
+     * select the media profile used for PTZ control and load the PTZ
+     * coordinate spaces advertised by the camera.
+     * @param {CameraSource} source : camera source to control
+     * @param {CameraConfig} settings : per-camera settings
+     * @return {Promise<any>} return promise with { info, profile, profiles }
+     */
+    public initialize(source:CameraSource, settings:CameraConfig):Promise<any>{
+        let self = this;
+        let device_info = null;
+        let all_profiles:Array<CameraProfile> = null;
+
+        self.close();
+        self._settings = settings;
+        self._spaces = GENERIC_SPACES;
+
+        // get the URI username and password from the camera source object;
+        // per-camera settings take precedence over the global camera credentials
+        let u = new URL(source.uri);
+        let endpoint = self._endpoint = new OnvifEndpoint(source, settings, self._options);
+
+        // resolve the ONVIF device service address for this camera
+        return endpoint.resolve().then((xaddr) => {
+
+            //Create an OnvifDevice object
+            return endpoint.attach(new Onvif.OnvifDevice({
+                xaddr: xaddr,
+                user : settings.username || self._options["camera-username"] || u.username,
+                pass : settings.password || self._options["camera-password"] || u.password
+            }));
+        }).then((device) => {
+            self._device = device;
+
+            // initialize onvif device
+            return self._device.init();
+        }).then((info) => {
+            device_info = info;
+
+            // list the media profiles and select the profile used for PTZ control
+            return self.selectProfile();
+        }).then((profiles) => {
+            all_profiles = profiles;
+
+            // load the camera's PTZ coordinate spaces (if this device supports PTZ)
+            return (self._device.services.ptz) ? self.loadSpaces() : Promise.resolve();
+        }).then(() => {
+            return {
+                info: device_info,
+                profile: _.find(all_profiles, (p:CameraProfile) => p.token === self._device.getCurrentProfile().token),
+                profiles: all_profiles
+            };
+        });
+    }
+
+    /**
+     * Returns the PTZ capabilities of the initialized camera
+     * @return {DriverCapabilities}
+     */
+    public capabilities():DriverCapabilities{
+        let ptz = !!(this._device && this._device.services.ptz);
+        return {
+            ptz: ptz,
+            absolute: ptz && !!this._spaces.absolute,
+            relative: ptz && !!this._spaces.relative,
+            calibrated: this._spaces !== GENERIC_SPACES,
+            status: ptz,
+            presets: ptz,
+            home: ptz
+        };
+    }
+
+    /**
+     * Send a continuous move with the configured move timeout
+     * @param {number} pan : velocity between -1 and +1
+     * @param {number} tilt : velocity between -1 and +1
+     * @param {number} zoom : velocity between -1 and +1
+     * @return {Promise<void>}
+     */
+    public continuousMove(pan:number, tilt:number, zoom:number):Promise<void>{
+        let params = {
+            'ProfileToken': this._device.getCurrentProfile().token,
+            'Velocity': {
+                x: pan,   // Speed of pan (in the range of -1.0 to 1.0)
+                y: tilt,  // Speed of tilt (in the range of -1.0 to 1.0)
+                z: zoom   // Speed of zoom (in the range of -1.0 to 1.0)
+            },
+            'Timeout': this._options["ptz-move-timeout"]
+        };
+        return this._device.services.ptz.continuousMove(params).then(() => {});
+    }
+
+    /**
+     * Stop all movement
+     * @return {Promise<void>}
+     */
+    public stop():Promise<void>{
+        let params = {
+            'ProfileToken': this._device.getCurrentProfile().token
+        };
+        return this._device.services.ptz.stop(params).then(() => {});
+    }
+
+    /**
+     * Move to an absolute position; an omitted axis keeps its current position
+     * @param {number} pan : position between -1 and +1
+     * @param {number} tilt : position between -1 and +1
+     * @param {number} zoom : position between 0 and +1
+     * @return {Promise<void>}
+     */
+    public absoluteMove(pan?:number, tilt?:number, zoom?:number):Promise<void>{
+        let self = this;
+
+        // if any axis was omitted, then we need the current position of the camera
+        let current = (isNumber(pan) && isNumber(tilt) && isNumber(zoom))
+                    ? Promise.resolve(null) : self.queryStatus().then((raw) => raw.position);
+
+        return current.then((position) => {
+            let space = self._spaces.absolute;
+            let params = {
+                'ProfileToken': self._device.getCurrentProfile().token,
+                'Position': {
+                    x: isNumber(pan)  ? toCameraSpace(pan, -1, space.pan)   : position.x,
+                    y: isNumber(tilt) ? toCameraSpace(tilt, -1, space.tilt) : position.y,
+                    z: isNumber(zoom) ? toCameraSpace(zoom, 0, space.zoom)  : position.z
+                }
+            };
+            return self._device.services.ptz.absoluteMove(params);
+        }).then(() => {});
+    }
+
+    /**
+     * Move relative to the current position
+     * @param {number} pan : translation between -1 and +1
+     * @param {number} tilt : translation between -1 and +1
+     * @param {number} zoom : translation between -1 and +1
+     * @return {Promise<void>}
+     */
+    public relativeMove(pan:number, tilt:number, zoom:number):Promise<void>{
+        let space = this._spaces.relative;
+        let params = {
+            'ProfileToken': this._device.getCurrentProfile().token,
+            'Translation': {
+                x: toTranslationSpace(pan, space.pan),
+                y: toTranslationSpace(tilt, space.tilt),
+                z: toTranslationSpace(zoom, space.zoom)
+            }
+        };
+        return this._device.services.ptz.relativeMove(params).then(() => {});
+    }
+
+    /**
+     * Move to the home position
+     * @return {Promise<void>}
+     */
+    public gotoHome():Promise<void>{
+        let params = {
+            'ProfileToken': this._device.getCurrentProfile().token
+        };
+        return this._device.services.ptz.gotoHomePosition(params).then(() => {});
+    }
+
+    /**
+     * Store the current position as the home position
+     * @return {Promise<void>}
+     */
+    public setHome():Promise<void>{
+        let params = {
+            'ProfileToken': this._device.getCurrentProfile().token
+        };
+        return this._device.services.ptz.setHomePosition(params).then(() => {});
+    }
+
+    /**
+     * Get the PRESETS stored on the camera for the selected media profile
+     * @return {Promise<Array<CameraPreset>>}
+     */
+    public getPresets():Promise<Array<CameraPreset>>{
+        let params = {
+            'ProfileToken': this._device.getCurrentProfile().token,
+            'Speed': 1.0
+        };
+
+        return this._device.services.ptz.getPresets(params).then((result) => {
+
+            // iterate the SOAP preset response and build a simplified preset array
+            // that we will pass into our new Camera object instance constructor
+            let presets:Array<CameraPreset> = [];
+            if(result.data.GetPresetsResponse && result.data.GetPresetsResponse.Preset){
+                let raw_presets:any = result.data.GetPresetsResponse.Preset;
+
+                // the SOAP response can either be a single object instance or an array of preset instances
+                // so we have to check to see if its an array and if not, we will make an array and
+                // put the single item in it so we can process the response as an array
+                if(!Array.isArray(raw_presets)){
+                    raw_presets = [ raw_presets ];
+                }
+
+                // process the raw preset array and add each simplified
+                // preset object into the new presets array
+                for (let item of raw_presets) {
+                    presets.push(new CameraPreset({
+                        token: item.$.token,
+                        name: item.Name }));
+                }
+            }
+            return presets;
+        });
+    }
+
+    /**
+     * Move to a stored preset
+     * @param {string} token : preset token
+     * @param {number} speed : travel speed between 0 and +1
+     * @return {Promise<void>}
+     */
+    public gotoPreset(token:string, speed:number):Promise<void>{
+        let params = {
+            'ProfileToken': this._device.getCurrentProfile().token,
+            'PresetToken': _.escape(token),
+            'Speed': {'x': speed, 'y': speed, 'z': speed}
+        };
+        return this._device.services.ptz.gotoPreset(params).then(() => {});
+    }
+
+    /**
+     * Store the current position as a preset
+     * @param {string} name : preset name
+     * @param {string} token : (optional) token of the preset to overwrite
+     * @return {Promise<string>} return promise with the preset token
+     */
+    public setPreset(name:string, token?:string):Promise<string>{
+        let params:any = {
+            'ProfileToken': this._device.getCurrentProfile().token,
+            'PresetName': _.escape(name)
+        };
+        if(token) params['PresetToken'] = _.escape(token);
+
+        return this._device.services.ptz.setPreset(params).then((result) => {
+            let response = result.data.SetPresetResponse || {};
+            return response.PresetToken || token;
+        });
+    }
+
+    /**
+     * Remove a stored preset
+     * @param {string} token : preset token
+     * @return {Promise<void>}
+     */
+    public removePreset(token:string):Promise<void>{
+        let params = {
+            'ProfileToken': this._device.getCurrentProfile().token,
+            'PresetToken': _.escape(token)
+        };
+        return this._device.services.ptz.removePreset(params).then(() => {});
+    }
+
+    /**
+     * Get the current position (normalized to the absolute coordinate space) and movement status
+     * @return {Promise<any>} return promise with { pan, tilt, zoom, moving }
+     */
+    public getStatus():Promise<any>{
+        let self = this;
+        return self.queryStatus().then((raw) => {
+            let space = self._spaces.absolute || GENERIC_SPACES.absolute;
+
+            // not all cameras report their movement status
+            let moving = (raw.panTilt || raw.zoom) ? (raw.panTilt === "MOVING" || raw.zoom === "MOVING") : null;
+            return {
+                pan: fromCameraSpace(raw.position.x, -1, space.pan),
+                tilt: fromCameraSpace(raw.position.y, -1, space.tilt),
+                zoom: fromCameraSpace(raw.position.z, 0, space.zoom),
+                moving: moving
+            };
+        });
+    }
+
+    /**
+     * Release the ONVIF device and its endpoint
+     */
+    public close():void{
+        if(this._endpoint) this._endpoint.close();
+        this._endpoint = null;
+        this._device = null;
+    }
+
+    /**
+     * Send the ONVIF 'GetStatus' request to the camera and parse the raw response
+     * @return {Promise<any>} return promise with { position: { x, y, z }, panTilt, zoom }
+     */
+    protected queryStatus():Promise<any>{
+        let params = {
+            'ProfileToken': this._device.getCurrentProfile().token
+        };
+        return this._device.services.ptz.getStatus(params).then((result) => {
+            let status = result.data.GetStatusResponse.PTZStatus || {};
+            let position = status.Position || {};
+            let pantilt = (position.PanTilt && position.PanTilt.$) ? position.PanTilt.$ : {};
+            let zoom = (position.Zoom && position.Zoom.$) ? position.Zoom.$ : {};
+
+            // the move status is either reported per axis or as a single value
+            let move = status.MoveStatus || {};
+            let text = (value:any) => (typeof value === 'string') ? value.toUpperCase() : null;
+            return {
+                position: {
+                    x: parseFloat(pantilt.x) || 0,
+                    y: parseFloat(pantilt.y) || 0,
+                    z: parseFloat(zoom.x) || 0
+                },
+                panTilt: (typeof move === 'string') ? text(move) : text(move.PanTilt),
+                zoom: (typeof move === 'string') ? text(move) : text(move.Zoom)
+            };
+        });
+    }
+
+    /**
+     * Load the absolute and relative PTZ coordinate spaces advertised by the
+     * camera for the PTZ configuration bound to the selected media profile.
+     * If the camera does not provide its configuration options, then the
+     * generic ONVIF coordinate spaces are assumed; the generic range is also
+     * used for each axis the camera does not advertise a range for.
+     * @return {Promise<void>}
+     */
+    protected loadSpaces():Promise<void>{
+        let self = this;
+        self._spaces = GENERIC_SPACES;
+
+        if(!self._ptzConfiguration) return Promise.resolve();
+
+        let params = {
+            'ConfigurationToken': self._ptzConfiguration
+        };
+        return self._device.services.ptz.getConfigurationOptions(params).then((result) => {
+            let options = result.data.GetConfigurationOptionsResponse.PTZConfigurationOptions || {};
+            let spaces = options.Spaces;
+            if(!spaces) return;
+
+            let absolute = parseSpace(spaces.AbsolutePanTiltPositionSpace, "XRange");
+            let relative = parseSpace(spaces.RelativePanTiltTranslationSpace, "XRange");
+            self._spaces = {
+                absolute: (!absolute) ? null : {
+                    pan:  absolute,
+                    tilt: parseSpace(spaces.AbsolutePanTiltPositionSpace, "YRange") || GENERIC_SPACES.absolute.tilt,
+                    zoom: parseSpace(spaces.AbsoluteZoomPositionSpace, "XRange") || GENERIC_SPACES.absolute.zoom
+                },
+                relative: (!relative) ? null : {
+                    pan:  relative,
+                    tilt: parseSpace(spaces.RelativePanTiltTranslationSpace, "YRange") || GENERIC_SPACES.relative.tilt,
+                    zoom: parseSpace(spaces.RelativeZoomTranslationSpace, "XRange") || GENERIC_SPACES.relative.zoom
+                }
+            };
+        }).catch((error) => {
+            // not all cameras support this request; continue using the generic spaces
+            self._spaces = GENERIC_SPACES;
+        });
+    }
+
+    /**
+     * List the media profiles offered by the camera and select the profile
+     * used for PTZ control. A media profile configured for this camera (by
+     * profile token or name) takes precedence; otherwise the first media
+     * profile bound to a PTZ configuration is selected.
+     * @return {Promise<Array<CameraProfile>>} return promise with all media profiles
+     */
+    protected selectProfile():Promise<Array<CameraProfile>>{
+        let self = this;
+
+        return self._device.services.media.getProfiles().then((result) => {
+            let profiles:Array<CameraProfile> = [];
+            let configurations:any = {};
+            if(result.data.GetProfilesResponse && result.data.GetProfilesResponse.Profiles){
+                let raw_profiles:any = result.data.GetProfilesResponse.Profiles;
+
+                // the SOAP response can either be a single object instance or an array of profile instances
+                if(!Array.isArray(raw_profiles)){
+                    raw_profiles = [ raw_profiles ];
+                }
+
+                // a profile supports PTZ control only if a PTZ configuration is bound to it
+                for (let item of raw_profiles) {
+                    if(item.PTZConfiguration && item.PTZConfiguration.$)
+                        configurations[item.$.token] = item.PTZConfiguration.$.token;
+                    profiles.push(new CameraProfile({
+                        token: item.$.token,
+                        name: item.Name,
+                        ptz: !!item.PTZConfiguration }));
+                }
+            }
+
+            // select the media profile configured for this camera
+            let selected:CameraProfile = null;
+            if(self._settings.profile){
+                selected = _.find(profiles, (p:CameraProfile) =>
+                    p.token === self._settings.profile || p.name === self._settings.profile);
+                if(!selected)
+                    self.emit("error", new Error("Unable to find configured media profile: " + self._settings.profile));
+            }
+
+            // otherwise select the first media profile that supports PTZ control
+            if(!selected)
+                selected = _.find(profiles, (p:CameraProfile) => p.ptz);
+
+            if(selected)
+                self._device.changeProfile(selected.token);
+
+            // remember the PTZ configuration bound to the selected profile
+            self._ptzConfiguration = configurations[self._device.getCurrentProfile().token] || null;
+
+            return profiles;
+        });
+    }
+}
@@ -0,0 +1,315 @@
+/*
+ **********************************************************************
+ *             __  __  ___  _  _  ___   ___ _    ___
+ *            |  \/  |/ _ \| \| |/ _ \ / __| |  | __|
+ *            | |\/| | (_) | .` | (_) | (__| |__| _|
+ *            |_|  |_|\___/|_|\_|\___/ \___|____|___|
+ *
+ * -------------------------------------------------------------------
+ *                    MONOCLE GATEWAY SERVICE
+ * -------------------------------------------------------------------
+ *
+ *  The Monocle Gateway Service is a small service that you install
+ *  and run inside your network to order to facilitate communication
+ *  between the Monocle (cloud) platform and your cameras. This
+ *  service is required if you want to implement one of the PTZ
+ *  controllers included in the Monocle project. The Monocle Gateway
+ *  Service DOES NOT communicate ANY video or audio content to the
+ *  Internet. It's sole purpose is to provide camera control
+ *  integration for PTZ cameras.
+ *
+ * -------------------------------------------------------------------
+ *        COPYRIGHT SHADEBLUE, LLC @ 2018, ALL RIGHTS RESERVED
+ * -------------------------------------------------------------------
+ *
+ **********************************************************************
+ */
+
+'use strict';
+
+import * as Onvif from 'node-onvif';
+import * as _ from 'underscore';
+import * as http from 'http';
+import * as https from 'https';
+import { URL, Url, parse as parseUrl } from 'url';
+import {CameraConfig, CameraSource} from "../";
+
+// Default ONVIF device service path and the ports probed to locate it
+const DEFAULT_ONVIF_PATH:string = "/onvif/device_service";
+const DEFAULT_PROBE_PORTS:Array<number> = [80, 8000, 8080, 8899, 443];
+const HTTPS_PORTS:Array<number> = [443, 8443];
+
+/**
+ * The members of the 'node-onvif' SOAP helper used by this module. The helper
+ * is internal to the library, so the library version is pinned in package.json;
+ * check these members (and the device 'services' and service 'oxaddr' members)
+ * when upgrading it.
+ */
+interface OnvifSoap {
+    HTTP_TIMEOUT:number;
+    parse(xml:string):Promise<any>;
+    createRequestSoap(params:any):string;
+}
+
+// the SOAP helper shared by all 'node-onvif' device and service instances
+const soap:OnvifSoap = Onvif._OnvifSoap;
+
+/**
+ * Send a SOAP request to a device service and collect the response
+ * regardless of its HTTP status code
+ * @param {Url} oxaddr : device service address
+ * @param {string} body : SOAP request envelope
+ * @param {boolean} insecure : accept self-signed TLS certificates
+ * @return {Promise<any>} return promise with { statusCode, statusMessage, xml }
+ */
+function post(oxaddr:Url, body:string, insecure:boolean):Promise<any>{
+    let secure = (oxaddr.protocol === "https:");
+    return new Promise<any>((resolve, reject) => {
+        let options:any = {
+            protocol: oxaddr.protocol,
+            hostname: oxaddr.hostname,
+            port: oxaddr.port || (secure ? 443 : 80),
+            path: oxaddr.pathname,
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/soap+xml; charset=utf-8;',
+                'Content-Length': Buffer.byteLength(body)
+            }
+        };
+        if(secure) options.rejectUnauthorized = !insecure;
+
+        let request:Function = (secure) ? https.request : http.request;
+        let req = request(options, (res) => {
+            let xml = '';
+            res.setEncoding('utf8');
+            res.on('data', (chunk) => { xml += chunk; });
+            res.on('end', () => resolve({ statusCode: res.statusCode, statusMessage: res.statusMessage, xml: xml }));
+        });
+
+        req.setTimeout(soap.HTTP_TIMEOUT, () => {
+            req.abort();
+        });
+
+        req.on('error', (error) => {
+            reject(new Error('Network Error: ' + (error ? error.message : '')));
+        });
+
+        req.write(body, 'utf8');
+        req.end();
+    });
+}
+
+/**
+ * This class is responsible for determining the ONVIF device
+ * service address (xaddr) used to communicate with a camera and
+ * for carrying the camera's SOAP requests over HTTPS.
+ */
+export class OnvifEndpoint {
+
+    protected readonly _source:CameraSource;
+    protected readonly _settings:CameraConfig;
+    protected readonly _options:any;
+    protected readonly _insecure:boolean;
+    protected _relay:http.Server = null;
+    protected _targets:Array<Url> = [];
+
+    /**
+     * Default Constructor
+     * @param {CameraSource} source : camera source
+     * @param {CameraConfig} settings : per-camera settings
+     * @param {any} options : global gateway options
+     */
+    public constructor(source:CameraSource, settings:CameraConfig, options:any){
+        this._source = source;
+        this._settings = settings;
+        this._options = options;
+
+        // accept self-signed TLS certificates from this camera only
+        this._insecure = settings.onvifInsecure || options["onvif-insecure"] === true;
+    }
+
+    /**
+     * Resolve the ONVIF device service address for the camera. An explicit
+     * per-camera 'onvif-xaddr' is used as-is; otherwise the per-camera
+     * 'onvif-port' or the port of an HTTP(S) source URI is used. If no
+     * port is known, then the common ONVIF ports are probed in order.
+     *
+     * @return {Promise<string>} return promise with the device service address
+     */
+    public resolve():Promise<string>{
+        let self = this;
+        let settings = self._settings;
+
+        // use the explicitly configured device service address
+        if(settings.onvifXaddr){
+            return Promise.resolve(settings.onvifXaddr);
+        }
+
+        let u = new URL(self._source.uri);
+        let path = settings.onvifPath || DEFAULT_ONVIF_PATH;
+
+        // use the explicitly configured device service port
+        if(settings.onvifPort){
+            return Promise.resolve(OnvifEndpoint.format(
+                OnvifEndpoint.scheme(settings, settings.onvifPort), u.hostname, settings.onvifPort, path));
+        }
+
+        // use the port from the source URI if the camera source is an HTTP(S) endpoint;
+        // the port of a streaming URI (RTSP, RTMP, etc.) is not the ONVIF service port
+        if((u.protocol === "http:" || u.protocol === "https:") && u.port){
+            let scheme = (settings.onvifHttps || u.protocol === "https:") ? "https" : "http";
+            return Promise.resolve(OnvifEndpoint.format(scheme, u.hostname, parseInt(u.port), path));
+        }
+
+        // probe the common ONVIF ports (in order) until a device service responds
+        let ports:Array<number> = self._options["onvif-probe-ports"] || DEFAULT_PROBE_PORTS;
+        let candidates = ports.map((port) =>
+            OnvifEndpoint.format(OnvifEndpoint.scheme(settings, port), u.hostname, port, path));
+
+        let probeNext = (index:number):Promise<string> => {
+            if(index >= candidates.length) {
+                return Promise.reject(new Error("Unable to locate ONVIF device service for camera at '" +
+                    u.hostname + "'; probed ports: " + ports.join(", ")));
+            }
+            return self.probe(candidates[index]).then((found) => {
+                return (found) ? candidates[index] : probeNext(index + 1);
+            });
+        };
+        return probeNext(0);
+    }
+
+    /**
+     * Probe a device service address with an unauthenticated
+     * 'GetSystemDateAndTime' request to see if an ONVIF service is listening.
+     * Only a SOAP response counts; a SOAP fault (such as 'NotAuthorized') still
+     * indicates an ONVIF device service, but any other web server does not.
+     *
+     * @param {string} xaddr : device service address
+     * @return {Promise<boolean>} true if an ONVIF device service responded
+     */
+    public probe(xaddr:string):Promise<boolean>{
+        let body = soap.createRequestSoap({
+            body: '<tds:GetSystemDateAndTime/>',
+            xmlns: [ 'xmlns:tds="http://www.onvif.org/ver10/device/wsdl"' ]
+        });
+        return post(parseUrl(xaddr), body, this._insecure).then((response) => soap.parse(response.xml)).then((parsed) => {
+            return !!(parsed && parsed['Body'] && (parsed['Body']['GetSystemDateAndTimeResponse'] || parsed['Body']['Fault']));
+        }).catch(() => false);
+    }
+
+    /**
+     * Carry the SOAP requests of an ONVIF device to its HTTPS service addresses.
+     * The 'node-onvif' library only supports HTTP transport, so each HTTPS service
+     * address of the device (including the services it creates while initializing)
+     * is replaced by an address on a relay listening on the loopback interface;
+     * the relay forwards the requests to the camera over HTTPS. A device using
+     * HTTP only is left untouched.
+     *
+     * @param {any} device : 'node-onvif' device created for the resolved address
+     * @return {Promise<any>} return promise with the device
+     */
+    public attach(device:any):Promise<any>{
+        let self = this;
+        if(device.oxaddr.protocol !== "https:") return Promise.resolve(device);
+
+        return self.listen().then(() => {
+            let relay = (service:any) => {
+                if(service && service.oxaddr) self.redirect(service.oxaddr);
+                return service;
+            };
+            _.each(device.services, relay);
+            device.services = new Proxy(device.services, {
+                set: (services:any, name:string, service:any) => {
+                    services[name] = relay(service);
+                    return true;
+                }
+            });
+            return device;
+        });
+    }
+
+    /**
+     * Stop the HTTPS relay (if running)
+     */
+    public close():void{
+        if(this._relay) this._relay.close();
+        this._relay = null;
+        this._targets = [];
+    }
+
+    /**
+     * Start the HTTPS relay on an ephemeral port of the loopback interface
+     * @return {Promise<any>}
+     */
+    protected listen():Promise<any>{
+        let self = this;
+        if(self._relay) return Promise.resolve();
+
+        self._relay = http.createServer((req, res) => {
+            // the first path segment selects the HTTPS service address
+            let match = /^\/(\d+)(\/.*)$/.exec(req.url);
+            let target = (match) ? self._targets[parseInt(match[1])] : null;
+            if(!target){
+                res.writeHead(404);
+                res.end();
+                return;
+            }
+
+            let body = '';
+            req.setEncoding('utf8');
+            req.on('data', (chunk) => { body += chunk; });
+            req.on('end', () => {
+                post(target, body, self._insecure).then((response) => {
+                    res.writeHead(response.statusCode, response.statusMessage,
+                        { 'Content-Type': 'application/soap+xml; charset=utf-8' });
+                    res.end(response.xml);
+                }).catch((error:Error) => {
+                    // report the network error (such as a rejected certificate) as the status message
+                    res.writeHead(502, error.message.replace(/[^\x20-\x7e]/g, " "));
+                    res.end();
+                });
+            });
+        });
+
+        return new Promise<any>((resolve, reject) => {
+            self._relay.once('error', reject);
+            self._relay.listen(0, "127.0.0.1", () => {
+                self._relay.removeListener('error', reject);
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * Point a 'node-onvif' service address at the HTTPS relay
+     * @param {Url} oxaddr : service address (modified in place)
+     */
+    protected redirect(oxaddr:Url):void{
+        if(oxaddr.protocol !== "https:") return;
+        let index = this._targets.push(parseUrl(oxaddr.href)) - 1;
+        oxaddr.protocol = "http:";
+        oxaddr.hostname = "127.0.0.1";
+        oxaddr.port = String(this._relay.address().port);
+        oxaddr.pathname = "/" + index + oxaddr.pathname;
+    }
+
+    /**
+     * Determine the URL scheme used to communicate with the camera on a given port
+     * @param {CameraConfig} settings : per-camera settings
+     * @param {number} port
+     * @return {string} 'http' or 'https'
+     */
+    private static scheme(settings:CameraConfig, port:number):string{
+        return (settings.onvifHttps || HTTPS_PORTS.indexOf(port) >= 0) ? "https" : "http";
+    }
+
+    /**
+     * Format a device service address
+     * @return {string}
+     */
+    private static format(scheme:string, hostname:string, port:number, path:string):string{
+        let defaultPort = (scheme === "https") ? 443 : 80;
+        if(!path.startsWith("/")) path = "/" + path;
+        return `${scheme}://${hostname}${(port && port !== defaultPort) ? ":" + port : ""}${path}`;
+    }
+}
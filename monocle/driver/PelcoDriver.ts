@@ -0,0 +1,438 @@
+/*
+ **********************************************************************
+ *             __  __  ___  _  _  ___   ___ _    ___
+ *            |  \/  |/ _ \| \| |/ _ \ / __| |  | __|
+ *            | |\/| | (_) | .` | (_) | (__| |__| _|
+ *            |_|  |_|\___/|_|\_|\___/ \___|____|___|
+ *
+ * -------------------------------------------------------------------
+ *                    MONOCLE GATEWAY SERVICE
+ * -------------------------------------------------------------------
+ *
+ *  The Monocle Gateway Service is a small service that you install
+ *  and run inside your network to order to facilitate communication
+ *  between the Monocle (cloud) platform and your cameras. This
+ *  service is required if you want to implement one of the PTZ
+ *  controllers included in the Monocle project. The Monocle Gateway
+ *  Service DOES NOT communicate ANY video or audio content to the
+ *  Internet. It's sole purpose is to provide camera control
+ *  integration for PTZ cameras.
+ *
+ * -------------------------------------------------------------------
+ *        COPYRIGHT SHADEBLUE, LLC @ 2018, ALL RIGHTS RESERVED
+ * -------------------------------------------------------------------
+ *
+ **********************************************************************
+ */
+
+'use strict';
+
+import {EventEmitter} from "events";
+import * as net from 'net';
+import * as _ from 'underscore';
+import { URL } from 'url';
+import {CameraConfig, CameraPreset, CameraSource} from "../";
+import {CameraDriver, DriverCapabilities} from "./CameraDriver";
+import {clamp} from "../util/Numbers";
+
+// Default Pelco Driver Options/Configuration
+const default_options = {
+    "ptz-move-timeout": 2,         // continuous moves are stopped after 2 seconds unless refreshed
+    "pelco-connect-timeout": 5000  // wait up to 5 seconds for the connection to the serial server
+};
+
+// TCP port of the serial server; the first serial port of most serial servers (e.g. Moxa NPort)
+const DEFAULT_PORT:number = 4001;
+const DEFAULT_ADDRESS:number = 1;
+
+// Pelco speed ranges; pan/tilt speeds from 0x00 to 0x3F and zoom speeds from 0 to 3
+const MAX_PAN_SPEED:number = 0x3F;
+const MAX_TILT_SPEED:number = 0x3F;
+const MAX_ZOOM_SPEED:number = 3;
+
+// preset numbers available for new presets; most domes reserve the presets above 32 for special functions
+const MAX_PRESET:number = 32;
+
+// command bits shared by Pelco-D (command 2) and Pelco-P (data 2)
+const RIGHT:number = 0x02;
+const LEFT:number = 0x04;
+const UP:number = 0x08;
+const DOWN:number = 0x10;
+const ZOOM_TELE:number = 0x20;
+const ZOOM_WIDE:number = 0x40;
+
+// extended commands shared by Pelco-D and Pelco-P
+const SET_PRESET:number = 0x03;
+const CLEAR_PRESET:number = 0x05;
+const GOTO_PRESET:number = 0x07;
+const SET_ZOOM_SPEED:number = 0x25;
+
+/**
+ * Scale a normalized velocity (from -1 to +1) into a Pelco speed
+ * @param {number} velocity
+ * @param {number} max : highest speed
+ * @return {number} speed; zero only if there is no movement
+ */
+function toSpeed(velocity:number, max:number):number {
+    if(!velocity) return 0;
+    return clamp(Math.round(Math.abs(velocity) * max), 1, max);
+}
+
+/**
+ * This driver controls analog PTZ domes using the Pelco-D or Pelco-P protocol;
+ * the RS-485 bus of the domes is reached through an Ethernet to serial server
+ * that forwards a raw TCP connection ('pelco-host' and 'pelco-port') to its
+ * serial port. Pelco domes do not reply to commands, cannot report their
+ * position and cannot list their presets; preset names are taken from the
+ * 'presets' setting of the camera ({ "<preset number>": "<name>" }) and from
+ * the presets stored through this driver.
+ */
+export class PelcoDriver extends EventEmitter implements CameraDriver{
+
+    public static readonly PELCO_D:string = "pelco-d";
+    public static readonly PELCO_P:string = "pelco-p";
+
+    protected readonly _options:any;
+    protected readonly _protocol:string;
+    protected _host:string = null;
+    protected _port:number = DEFAULT_PORT;
+    protected _address:number = DEFAULT_ADDRESS;
+    protected _presets:Map<string, string> = new Map();
+    protected _socket:net.Socket = null;
+    protected _connecting:Promise<void> = null;
+    protected _zoomSpeed:number = null;
+    protected _watchdog:any = null;
+
+    /**
+     * Default Constructor
+     * @param {string} protocol : PELCO_D or PELCO_P
+     * @param options
+     */
+    public constructor(protocol:string, options?:any|undefined){
+        super();
+        this._protocol = (protocol === PelcoDriver.PELCO_P) ? PelcoDriver.PELCO_P : PelcoDriver.PELCO_D;
+
+        // apply provided options; merge with defaults
+        if(options)
+            this._options = _.defaults(options, default_options);
+        else
+            this._options = default_options;
+    }
+
+    /**
+     * Connect to the serial server of the camera
+     * @param {CameraSource} source : camera source to control
+     * @param {CameraConfig} settings : per-camera settings
+     * @return {Promise<any>} return promise with { info }
+     */
+    public initialize(source:CameraSource, settings:CameraConfig):Promise<any>{
+        let self = this;
+        self.close();
+
+        // the serial server is usually not the video source of an analog camera
+        self._host = settings.pelcoHost || new URL(source.uri).hostname;
+        self._port = settings.pelcoPort || DEFAULT_PORT;
+        self._address = settings.pelcoAddress || DEFAULT_ADDRESS;
+        self._zoomSpeed = null;
+
+        // Pelco-D addresses range from 1 to 255; Pelco-P addresses from 1 to 32 (sent as 0 to 31)
+        let max = (self._protocol === PelcoDriver.PELCO_P) ? 32 : 255;
+        if(self._address < 1 || self._address > max)
+            return Promise.reject(new Error("Invalid " + self._protocol + " camera address: " + self._address));
+
+        // preset names configured for this camera
+        self._presets = new Map();
+        _.each(settings.presets || {}, (name:any, token:string) => self._presets.set(String(parseInt(token)), String(name)));
+
+        return self.connect().then(() => {
+            return {
+                info: {
+                    model: (self._protocol === PelcoDriver.PELCO_P) ? "Pelco-P" : "Pelco-D",
+                    hardwareId: String(self._address)
+                }
+            };
+        });
+    }
+
+    /**
+     * Returns the PTZ capabilities of the camera; Pelco domes only support
+     * continuous moves and presets
+     * @return {DriverCapabilities}
+     */
+    public capabilities():DriverCapabilities{
+        let ptz = !!this._host;
+        return {
+            ptz: ptz,
+            absolute: false,
+            relative: false,
+            calibrated: false,
+            status: false,
+            presets: ptz,
+            home: false
+        };
+    }
+
+    /**
+     * Start (or update) a continuous move. Pelco domes keep moving until
+     * stopped, so the move is stopped by this driver if it is not refreshed
+     * before the 'ptz-move-timeout' expires.
+     * @param {number} pan : velocity between -1 and +1
+     * @param {number} tilt : velocity between -1 and +1
+     * @param {number} zoom : velocity between -1 and +1
+     * @return {Promise<void>}
+     */
+    public continuousMove(pan:number, tilt:number, zoom:number):Promise<void>{
+        let self = this;
+        self.watchdog(pan !== 0 || tilt !== 0 || zoom !== 0);
+
+        let bits = ((pan > 0) ? RIGHT : (pan < 0) ? LEFT : 0) |
+                   ((tilt > 0) ? UP : (tilt < 0) ? DOWN : 0) |
+                   ((zoom > 0) ? ZOOM_TELE : (zoom < 0) ? ZOOM_WIDE : 0);
+
+        // Pelco zoom commands have no speed; the zoom speed is a separate setting of the dome
+        let zoom_speed = (zoom !== 0) ? Math.round(Math.abs(clamp(zoom, -1, 1)) * MAX_ZOOM_SPEED) : self._zoomSpeed;
+        let speed = (zoom_speed !== self._zoomSpeed)
+                  ? self.send(SET_ZOOM_SPEED, 0x00, zoom_speed).then(() => { self._zoomSpeed = zoom_speed; })
+                  : Promise.resolve();
+
+        return speed.then(() => {
+            return self.send(bits, toSpeed(pan, MAX_PAN_SPEED), toSpeed(tilt, MAX_TILT_SPEED));
+        });
+    }
+
+    /**
+     * Stop all movement
+     * @return {Promise<void>}
+     */
+    public stop():Promise<void>{
+        this.watchdog(false);
+        return this.send(0x00, 0x00, 0x00);
+    }
+
+    /**
+     * Pelco domes do not support absolute moves
+     * @return {Promise<void>}
+     */
+    public absoluteMove(pan?:number, tilt?:number, zoom?:number):Promise<void>{
+        return Promise.reject(new Error("Pelco cameras do not support absolute moves."));
+    }
+
+    /**
+     * Pelco domes do not support relative moves
+     * @return {Promise<void>}
+     */
+    public relativeMove(pan:number, tilt:number, zoom:number):Promise<void>{
+        return Promise.reject(new Error("Pelco cameras do not support relative moves."));
+    }
+
+    /**
+     * Pelco domes do not have a home position
+     * @return {Promise<void>}
+     */
+    public gotoHome():Promise<void>{
+        return Promise.reject(new Error("Pelco cameras do not support a home position; use a preset instead."));
+    }
+
+    /**
+     * Pelco domes do not have a home position
+     * @return {Promise<void>}
+     */
+    public setHome():Promise<void>{
+        return Promise.reject(new Error("Pelco cameras do not support a home position; use a preset instead."));
+    }
+
+    /**
+     * Get the configured and stored PRESETS; Pelco domes cannot list their presets
+     * @return {Promise<Array<CameraPreset>>}
+     */
+    public getPresets():Promise<Array<CameraPreset>>{
+        let presets = Array.from(this._presets.keys())
+            .sort((a, b) => parseInt(a) - parseInt(b))
+            .map((token) => new CameraPreset({ token: token, name: this._presets.get(token) }));
+        return Promise.resolve(presets);
+    }
+
+    /**
+     * Recall a preset; Pelco preset recalls always use the speed configured on the dome
+     * @param {string} token : preset number
+     * @param {number} speed : travel speed (ignored)
+     * @return {Promise<void>}
+     */
+    public gotoPreset(token:string, speed:number):Promise<void>{
+        let number:number;
+        try { number = this.presetNumber(token); } catch(error) { return Promise.reject(error); }
+        this.watchdog(false);
+        return this.send(GOTO_PRESET, 0x00, number);
+    }
+
+    /**
+     * Store the current position as a preset; without a token, the lowest
+     * preset number without a known preset is used
+     * @param {string} name : preset name
+     * @param {string} token : preset number (optional)
+     * @return {Promise<string>} return promise with the preset token
+     */
+    public setPreset(name:string, token?:string):Promise<string>{
+        let self = this;
+        if(!token) {
+            for(let n = 1; n <= MAX_PRESET && !token; n++)
+                if(!self._presets.has(String(n))) token = String(n);
+            if(!token) return Promise.reject(new Error("Unable to store preset; all Pelco presets are in use."));
+        }
+
+        let number:number;
+        try { number = self.presetNumber(token); } catch(error) { return Promise.reject(error); }
+        return self.send(SET_PRESET, 0x00, number).then(() => {
+            self._presets.set(String(number), name);
+            return String(number);
+        });
+    }
+
+    /**
+     * Clear a preset
+     * @param {string} token : preset number
+     * @return {Promise<void>}
+     */
+    public removePreset(token:string):Promise<void>{
+        let self = this;
+        let number:number;
+        try { number = self.presetNumber(token); } catch(error) { return Promise.reject(error); }
+        return self.send(CLEAR_PRESET, 0x00, number).then(() => {
+            self._presets.delete(String(number));
+        });
+    }
+
+    /**
+     * Pelco domes cannot report their position
+     * @return {Promise<any>}
+     */
+    public getStatus():Promise<any>{
+        return Promise.reject(new Error("Pelco cameras do not report their position."));
+    }
+
+    /**
+     * Close the connection to the serial server
+     */
+    public close():void{
+        this.watchdog(false);
+        if(this._socket) this._socket.destroy();
+        this._socket = null;
+        this._connecting = null;
+        this._host = null;
+    }
+
+    /**
+     * Parse a preset token into a Pelco preset number
+     * @param {string} token
+     * @return {number}
+     * @throws {Error} if the token is not a valid preset number
+     */
+    protected presetNumber(token:string):number{
+        let number = parseInt(token);
+        if(isNaN(number) || number < 1 || number > 0xFF)
+            throw new Error("Invalid Pelco preset number: " + token);
+        return number;
+    }
+
+    /**
+     * Start, refresh or cancel the timer that stops a continuous move that was not refreshed
+     * @param {boolean} moving
+     */
+    protected watchdog(moving:boolean):void{
+        let self = this;
+        if(self._watchdog) clearTimeout(self._watchdog);
+        self._watchdog = null;
+        if(!moving) return;
+
+        self._watchdog = setTimeout(() => {
+            self._watchdog = null;
+            self.stop().catch((error) => self.emit("error", new Error("Unable to stop Pelco camera after move timeout: " + error.message)));
+        }, self._options["ptz-move-timeout"] * 1000);
+    }
+
+    /**
+     * Build a Pelco-D or Pelco-P message
+     * @param {number} command : command bits or extended command (command 2 / data 2)
+     * @param {number} data1 : pan speed or extended command data (data 1 / data 3)
+     * @param {number} data2 : tilt speed or extended command data (data 2 / data 4)
+     * @return {Buffer}
+     */
+    protected message(command:number, data1:number, data2:number):Buffer{
+        let message:Buffer;
+        if(this._protocol === PelcoDriver.PELCO_P) {
+            // STX, address (0 based), data 1-4, ETX, checksum (XOR of the preceding bytes)
+            message = Buffer.from([ 0xA0, this._address - 1, 0x00, command, data1, data2, 0xAF, 0x00 ]);
+            let checksum = 0;
+            for(let i = 0; i < 7; i++) checksum ^= message[i];
+            message[7] = checksum;
+        }
+        else {
+            // sync, address, command 1-2, data 1-2, checksum (sum of the bytes after sync, modulo 256)
+            message = Buffer.from([ 0xFF, this._address, 0x00, command, data1, data2, 0x00 ]);
+            let checksum = 0;
+            for(let i = 1; i < 6; i++) checksum += message[i];
+            message[6] = checksum & 0xFF;
+        }
+        return message;
+    }
+
+    /**
+     * Send a message to the camera; Pelco domes do not reply, so the message
+     * is complete once it has been written to the serial server
+     * @return {Promise<void>}
+     */
+    protected send(command:number, data1:number, data2:number):Promise<void>{
+        let self = this;
+        let message = self.message(command, data1, data2);
+        return self.connect().then(() => {
+            return new Promise<void>((resolve, reject) => {
+                self._socket.write(message, (error) => {
+                    if(error) reject(new Error("Unable to send " + self._protocol + " command: " + error.message));
+                    else resolve();
+                });
+            });
+        });
+    }
+
+    /**
+     * Open the TCP connection to the serial server (if not already open)
+     * @return {Promise<void>}
+     */
+    protected connect():Promise<void>{
+        let self = this;
+        if(!self._host) return Promise.reject(new Error("The Pelco camera is not initialized."));
+        if(self._socket) return Promise.resolve();
+        if(self._connecting) return self._connecting;
+
+        self._connecting = new Promise<void>((resolve, reject) => {
+            let socket = net.connect(self._port, self._host);
+            socket.setNoDelay(true);
+
+            // give up if the connection is not established within the connect timeout
+            socket.setTimeout(self._options["pelco-connect-timeout"], () => {
+                if(self._socket === socket) return;
+                self._connecting = null;
+                socket.destroy();
+                reject(new Error("Unable to connect to serial server at " + self._host + ":" + self._port + ": connection timed out"));
+            });
+            socket.on('connect', () => {
+                socket.setTimeout(0);
+                self._connecting = null;
+                self._socket = socket;
+                resolve();
+            });
+            socket.on('error', (error) => {
+                if(self._connecting) {
+                    self._connecting = null;
+                    reject(new Error("Unable to connect to serial server at " + self._host + ":" + self._port + ": " + error.message));
+                }
+                else self.emit("error", error);
+            });
+            socket.on('close', () => {
+                // reconnect on the next command
+                if(self._socket === socket) self._socket = null;
+            });
+        });
+        return self._connecting;
+    }
+}
@@ -0,0 +1,261 @@
+/*
+ **********************************************************************
+ *             __  __  ___  _  _  ___   ___ _    ___
+ *            |  \/  |/ _ \| \| |/ _ \ / __| |  | __|
+ *            | |\/| | (_) | .` | (_) | (__| |__| _|
+ *            |_|  |_|\___/|_|\_|\___/ \___|____|___|
+ *
+ * -------------------------------------------------------------------
+ *                    MONOCLE GATEWAY SERVICE
+ * -------------------------------------------------------------------
+ *
+ *  The Monocle Gateway Service is a small service that you install
+ *  and run inside your network to order to facilitate communication
+ *  between the Monocle (cloud) platform and your cameras. This
+ *  service is required if you want to implement one of the PTZ
+ *  controllers included in the Monocle project. The Monocle Gateway
+ *  Service DOES NOT communicate ANY video or audio content to the
+ *  Internet. It's sole purpose is to provide camera control
+ *  integration for PTZ cameras.
+ *
+ * -------------------------------------------------------------------
+ *        COPYRIGHT SHADEBLUE, LLC @ 2018, ALL RIGHTS RESERVED
+ * -------------------------------------------------------------------
+ *
+ **********************************************************************
+ */
+
+'use strict';
+
+import * as _ from 'underscore';
+import {CameraPreset} from "../";
+import {clamp, isNumber} from "../util/Numbers";
+
+// Default Simulated Camera Options/Configuration
+const default_options = {
+    "simulator-pan-rate": 1.0,     // normalized pan units per second at full speed (end to end in 2 seconds)
+    "simulator-tilt-rate": 1.0,    // normalized tilt units per second at full speed
+    "simulator-zoom-rate": 0.5     // normalized zoom units per second at full speed (wide to tele in 2 seconds)
+};
+
+// lowest normalized position of each axis
+const LOW = { pan: -1, tilt: -1, zoom: 0 };
+const AXES:Array<string> = [ "pan", "tilt", "zoom" ];
+
+/**
+ * This class simulates the pan/tilt/zoom mechanics of a PTZ camera. The
+ * virtual position follows continuous moves (at the velocity times the
+ * configured axis rate until stopped or timed out) and travels to the
+ * target of absolute, relative, preset and home moves over time. Presets
+ * are kept in memory. All positions, translations, velocities and speeds
+ * are normalized like those of the camera drivers.
+ */
+export class SimulatedCamera{
+
+    protected readonly _options:any;
+    protected _position:any = { pan: 0, tilt: 0, zoom: 0 };
+    protected _home:any = { pan: 0, tilt: 0, zoom: 0 };
+    protected _velocity:any = null;
+    protected _deadline:number = null;
+    protected _target:any = null;
+    protected _speed:number = 1;
+    protected _updated:number = Date.now();
+    protected _presets:Map<string, any> = new Map();
+    protected _nextToken:number = 1;
+
+    /**
+     * Default Constructor
+     */
+    public constructor(options?:any|undefined){
+
+        // apply provided options; merge with defaults
+        if(options)
+            this._options = _.defaults(options, default_options);
+        else
+            this._options = default_options;
+    }
+
+    /**
+     * Start (or update) a continuous move
+     * @param {number} pan : velocity between -1 and +1
+     * @param {number} tilt : velocity between -1 and +1
+     * @param {number} zoom : velocity between -1 and +1
+     * @param {number} timeout : (optional) seconds after which the move stops on its own
+     */
+    public continuousMove(pan:number, tilt:number, zoom:number, timeout?:number):void{
+        this.advance();
+        this._target = null;
+        this._velocity = {
+            pan: clamp(pan || 0, -1, 1),
+            tilt: clamp(tilt || 0, -1, 1),
+            zoom: clamp(zoom || 0, -1, 1)
+        };
+        if(this._velocity.pan === 0 && this._velocity.tilt === 0 && this._velocity.zoom === 0) this._velocity = null;
+        this._deadline = (this._velocity && isNumber(timeout) && timeout > 0) ? Date.now() + timeout * 1000 : null;
+    }
+
+    /**
+     * Stop all movement
+     */
+    public stop():void{
+        this.advance();
+        this._velocity = null;
+        this._target = null;
+    }
+
+    /**
+     * Move to an absolute position; an omitted axis keeps its current position
+     * @param {number} pan : position between -1 and +1
+     * @param {number} tilt : position between -1 and +1
+     * @param {number} zoom : position between 0 and +1
+     * @param {number} speed : (optional) travel speed between 0 and +1
+     */
+    public absoluteMove(pan?:number, tilt?:number, zoom?:number, speed?:number):void{
+        this.advance();
+        this.travel({
+            pan: isNumber(pan) ? pan : this._position.pan,
+            tilt: isNumber(tilt) ? tilt : this._position.tilt,
+            zoom: isNumber(zoom) ? zoom : this._position.zoom
+        }, speed);
+    }
+
+    /**
+     * Move relative to the current position
+     * @param {number} pan : translation between -1 and +1
+     * @param {number} tilt : translation between -1 and +1
+     * @param {number} zoom : translation between -1 and +1
+     * @param {number} speed : (optional) travel speed between 0 and +1
+     */
+    public relativeMove(pan:number, tilt:number, zoom:number, speed?:number):void{
+        this.advance();
+        this.travel({
+            pan: this._position.pan + clamp(pan || 0, -1, 1),
+            tilt: this._position.tilt + clamp(tilt || 0, -1, 1),
+            zoom: this._position.zoom + clamp(zoom || 0, -1, 1)
+        }, speed);
+    }
+
+    /**
+     * Move to the home position
+     * @param {number} speed : (optional) travel speed between 0 and +1
+     */
+    public gotoHome(speed?:number):void{
+        this.advance();
+        this.travel(this._home, speed);
+    }
+
+    /**
+     * Store the current position as the home position
+     */
+    public setHome():void{
+        this.advance();
+        this._home = _.clone(this._position);
+    }
+
+    /**
+     * Returns the stored presets
+     * @return {Array<CameraPreset>}
+     */
+    public presets():Array<CameraPreset>{
+        return Array.from(this._presets.keys()).map((token) => new CameraPreset({ token: token, name: this._presets.get(token).name }));
+    }
+
+    /**
+     * Move to a stored preset
+     * @param {string} token : preset token
+     * @param {number} speed : (optional) travel speed between 0 and +1
+     * @throws {Error} if the preset does not exist
+     */
+    public gotoPreset(token:string, speed?:number):void{
+        let preset = this._presets.get(String(token));
+        if(!preset) throw new Error("Unknown preset: " + token);
+        this.advance();
+        this.travel(preset.position, speed);
+    }
+
+    /**
+     * Store the current position as a preset
+     * @param {string} name : preset name
+     * @param {string} token : (optional) token of the preset to overwrite
+     * @return {string} preset token
+     */
+    public setPreset(name:string, token?:string):string{
+        this.advance();
+        if(!token) {
+            while(this._presets.has(String(this._nextToken))) this._nextToken++;
+            token = String(this._nextToken++);
+        }
+        this._presets.set(String(token), { name: name || ("Preset " + token), position: _.clone(this._position) });
+        return String(token);
+    }
+
+    /**
+     * Remove a stored preset
+     * @param {string} token : preset token
+     * @throws {Error} if the preset does not exist
+     */
+    public removePreset(token:string):void{
+        if(!this._presets.delete(String(token))) throw new Error("Unknown preset: " + token);
+    }
+
+    /**
+     * Returns the current position and movement status
+     * @return {any} { pan, tilt, zoom, moving }
+     */
+    public status():any{
+        this.advance();
+        return {
+            pan: this._position.pan,
+            tilt: this._position.tilt,
+            zoom: this._position.zoom,
+            moving: !!(this._velocity || this._target)
+        };
+    }
+
+    /**
+     * Start travelling to a target position
+     * @param target : { pan, tilt, zoom }
+     * @param {number} speed : travel speed between 0 and +1 (full speed if omitted)
+     */
+    protected travel(target:any, speed?:number):void{
+        this._velocity = null;
+        this._target = {};
+        AXES.forEach((axis) => this._target[axis] = clamp(target[axis], LOW[axis], 1));
+        this._speed = (isNumber(speed) && speed > 0) ? clamp(speed, 0.01, 1) : 1;
+    }
+
+    /**
+     * Update the virtual position for the time elapsed since the last update
+     */
+    protected advance():void{
+        let now = Date.now();
+
+        if(this._velocity) {
+            // a continuous move only lasts until its timeout
+            let end = (this._deadline) ? Math.min(now, this._deadline) : now;
+            let seconds = Math.max(0, end - this._updated) / 1000;
+            AXES.forEach((axis) => {
+                let rate = this._options["simulator-" + axis + "-rate"];
+                this._position[axis] = clamp(this._position[axis] + this._velocity[axis] * rate * seconds, LOW[axis], 1);
+            });
+            if(this._deadline && now >= this._deadline) this._velocity = null;
+        }
+        else if(this._target) {
+            let seconds = (now - this._updated) / 1000;
+            let arrived = true;
+            AXES.forEach((axis) => {
+                let step = this._options["simulator-" + axis + "-rate"] * this._speed * seconds;
+                let delta = this._target[axis] - this._position[axis];
+                if(Math.abs(delta) <= step) {
+                    this._position[axis] = this._target[axis];
+                }
+                else {
+                    this._position[axis] += (delta > 0) ? step : -step;
+                    arrived = false;
+                }
+            });
+            if(arrived) this._target = null;
+        }
+        this._updated = now;
+    }
+}
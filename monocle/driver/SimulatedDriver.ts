@@ -0,0 +1,221 @@
+/*
+ **********************************************************************
+ *             __  __  ___  _  _  ___   ___ _    ___
+ *            |  \/  |/ _ \| \| |/ _ \ / __| |  | __|
+ *            | |\/| | (_) | .` | (_) | (__| |__| _|
+ *            |_|  |_|\___/|_|\_|\___/ \___|____|___|
+ *
+ * -------------------------------------------------------------------
+ *                    MONOCLE GATEWAY SERVICE
+ * -------------------------------------------------------------------
+ *
+ *  The Monocle Gateway Service is a small service that you install
+ *  and run inside your network to order to facilitate communication
+ *  between the Monocle (cloud) platform and your cameras. This
+ *  service is required if you want to implement one of the PTZ
+ *  controllers included in the Monocle project. The Monocle Gateway
+ *  Service DOES NOT communicate ANY video or audio content to the
+ *  Internet. It's sole purpose is to provide camera control
+ *  integration for PTZ cameras.
+ *
+ * -------------------------------------------------------------------
+ *        COPYRIGHT SHADEBLUE, LLC @ 2018, ALL RIGHTS RESERVED
+ * -------------------------------------------------------------------
+ *
+ **********************************************************************
+ */
+
+'use strict';
+
+import {EventEmitter} from "events";
+import * as _ from 'underscore';
+import {CameraConfig, CameraPreset, CameraSource} from "../";
+import {CameraDriver, DriverCapabilities} from "./CameraDriver";
+import {SimulatedCamera} from "./SimulatedCamera";
+
+// Default Simulated Driver Options/Configuration
+const default_options = {
+    "ptz-move-timeout": 2          // continuous moves stop on their own after 2 seconds
+};
+
+// simulated cameras by camera source; the virtual position and presets are kept
+// when a camera controller is initialized again for the same camera source
+const cameras:Map<string, SimulatedCamera> = new Map();
+
+/**
+ * This driver controls a simulated PTZ camera, so that the gateway and PTZ
+ * controllers can be developed and tested without a physical camera. The
+ * simulated camera supports all PTZ capabilities; presets configured for
+ * the camera ('presets' setting) are stored at the home position.
+ */
+export class SimulatedDriver extends EventEmitter implements CameraDriver{
+
+    protected readonly _options:any;
+    protected _camera:SimulatedCamera = null;
+
+    /**
+     * Default Constructor
+     */
+    public constructor(options?:any|undefined){
+        super();
+
+        // apply provided options; merge with defaults
+        if(options)
+            this._options = _.defaults(options, default_options);
+        else
+            this._options = default_options;
+    }
+
+    /**
+     * Get (or create) the simulated camera for the camera source
+     * @param {CameraSource} source : camera source to control
+     * @param {CameraConfig} settings : per-camera settings
+     * @return {Promise<any>} return promise with { info }
+     */
+    public initialize(source:CameraSource, settings:CameraConfig):Promise<any>{
+        let self = this;
+        let key = source.uuid || source.name || source.uri;
+
+        self._camera = cameras.get(key);
+        if(!self._camera) {
+            self._camera = new SimulatedCamera(self._options);
+            _.each(settings.presets || {}, (name:any, token:string) => self._camera.setPreset(String(name), token));
+            cameras.set(key, self._camera);
+        }
+
+        return Promise.resolve({
+            info: {
+                manufacturer: "Monocle",
+                model: "Simulated PTZ Camera",
+                serialNumber: key
+            }
+        });
+    }
+
+    /**
+     * Returns the PTZ capabilities of the simulated camera
+     * @return {DriverCapabilities}
+     */
+    public capabilities():DriverCapabilities{
+        let ptz = !!this._camera;
+        return {
+            ptz: ptz,
+            absolute: ptz,
+            relative: ptz,
+            calibrated: ptz,
+            status: ptz,
+            presets: ptz,
+            home: ptz
+        };
+    }
+
+    /**
+     * Start (or update) a continuous move with the configured move timeout
+     * @return {Promise<void>}
+     */
+    public continuousMove(pan:number, tilt:number, zoom:number):Promise<void>{
+        return this.perform(() => this._camera.continuousMove(pan, tilt, zoom, this._options["ptz-move-timeout"]));
+    }
+
+    /**
+     * Stop all movement
+     * @return {Promise<void>}
+     */
+    public stop():Promise<void>{
+        return this.perform(() => this._camera.stop());
+    }
+
+    /**
+     * Move to an absolute position; an omitted axis keeps its current position
+     * @return {Promise<void>}
+     */
+    public absoluteMove(pan?:number, tilt?:number, zoom?:number):Promise<void>{
+        return this.perform(() => this._camera.absoluteMove(pan, tilt, zoom));
+    }
+
+    /**
+     * Move relative to the current position
+     * @return {Promise<void>}
+     */
+    public relativeMove(pan:number, tilt:number, zoom:number):Promise<void>{
+        return this.perform(() => this._camera.relativeMove(pan, tilt, zoom));
+    }
+
+    /**
+     * Move to the home position
+     * @return {Promise<void>}
+     */
+    public gotoHome():Promise<void>{
+        return this.perform(() => this._camera.gotoHome());
+    }
+
+    /**
+     * Store the current position as the home position
+     * @return {Promise<void>}
+     */
+    public setHome():Promise<void>{
+        return this.perform(() => this._camera.setHome());
+    }
+
+    /**
+     * Get the presets stored in the simulated camera
+     * @return {Promise<Array<CameraPreset>>}
+     */
+    public getPresets():Promise<Array<CameraPreset>>{
+        return this.perform(() => this._camera.presets());
+    }
+
+    /**
+     * Move to a stored preset
+     * @return {Promise<void>}
+     */
+    public gotoPreset(token:string, speed:number):Promise<void>{
+        return this.perform(() => this._camera.gotoPreset(token, speed));
+    }
+
+    /**
+     * Store the current position as a preset
+     * @return {Promise<string>} return promise with the preset token
+     */
+    public setPreset(name:string, token?:string):Promise<string>{
+        return this.perform(() => this._camera.setPreset(name, token));
+    }
+
+    /**
+     * Remove a stored preset
+     * @return {Promise<void>}
+     */
+    public removePreset(token:string):Promise<void>{
+        return this.perform(() => this._camera.removePreset(token));
+    }
+
+    /**
+     * Get the current position and movement status
+     * @return {Promise<any>} return promise with { pan, tilt, zoom, moving }
+     */
+    public getStatus():Promise<any>{
+        return this.perform(() => this._camera.status());
+    }
+
+    /**
+     * Release the simulated camera; its state is kept for the next initialization
+     */
+    public close():void{
+        this._camera = null;
+    }
+
+    /**
+     * Perform an action on the simulated camera
+     * @param {() => any} action
+     * @return {Promise<any>} return promise with the action result
+     */
+    protected perform(action:() => any):Promise<any>{
+        if(!this._camera) return Promise.reject(new Error("The simulated camera is not initialized."));
+        try {
+            return Promise.resolve(action());
+        }
+        catch(error) {
+            return Promise.reject(error);
+        }
+    }
+}
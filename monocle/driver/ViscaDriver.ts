@@ -0,0 +1,710 @@
+/*
+ **********************************************************************
+ *             __  __  ___  _  _  ___   ___ _    ___
+ *            |  \/  |/ _ \| \| |/ _ \ / __| |  | __|
+ *            | |\/| | (_) | .` | (_) | (__| |__| _|
+ *            |_|  |_|\___/|_|\_|\___/ \___|____|___|
+ *
+ * -------------------------------------------------------------------
+ *                    MONOCLE GATEWAY SERVICE
+ * -------------------------------------------------------------------
+ *
+ *  The Monocle Gateway Service is a small service that you install
+ *  and run inside your network to order to facilitate communication
+ *  between the Monocle (cloud) platform and your cameras. This
+ *  service is required if you want to implement one of the PTZ
+ *  controllers included in the Monocle project. The Monocle Gateway
+ *  Service DOES NOT communicate ANY video or audio content to the
+ *  Internet. It's sole purpose is to provide camera control
+ *  integration for PTZ cameras.
+ *
+ * -------------------------------------------------------------------
+ *        COPYRIGHT SHADEBLUE, LLC @ 2018, ALL RIGHTS RESERVED
+ * -------------------------------------------------------------------
+ *
+ **********************************************************************
+ */
+
+'use strict';
+
+import {EventEmitter} from "events";
+import * as dgram from 'dgram';
+import * as dns from 'dns';
+import * as net from 'net';
+import * as _ from 'underscore';
+import { URL } from 'url';
+import {CameraConfig, CameraPreset, CameraSource} from "../";
+import {CameraDriver, DriverCapabilities} from "./CameraDriver";
+import {clamp, isNumber} from "../util/Numbers";
+
+// Default VISCA Driver Options/Configuration
+const default_options = {
+    "ptz-move-timeout": 2,         // continuous moves are stopped after 2 seconds unless refreshed
+    "visca-timeout": 2000          // wait up to 2 seconds for the camera to reply to a request
+};
+
+// VISCA over IP defaults; Sony cameras listen on UDP 52381 (with the VISCA over IP header)
+// while most other cameras (e.g. PTZOptics) accept raw VISCA on TCP 5678 or UDP 1259
+const DEFAULT_UDP_PORT:number = 52381;
+const DEFAULT_TCP_PORT:number = 5678;
+const DEFAULT_ADDRESS:number = 1;
+
+// VISCA over IP message types
+const VISCA_COMMAND:number = 0x0100;
+const VISCA_INQUIRY:number = 0x0110;
+const VISCA_REPLY:number = 0x0111;
+const CONTROL_COMMAND:number = 0x0200;
+const CONTROL_REPLY:number = 0x0201;
+
+// VISCA position limits; used when no 'visca-limits' are configured for the camera
+// (the Sony SRG series limits; other models differ slightly)
+const DEFAULT_LIMITS = {
+    pan:  { min: -2448, max: 2448 },
+    tilt: { min: -432,  max: 1296 },
+    zoom: { min: 0,     max: 16384 }
+};
+
+// VISCA speed bytes; pan/tilt speeds start at 0x01 and zoom speeds at 0x00
+const DEFAULT_MAX_SPEED = {
+    pan: 0x18,
+    tilt: 0x14,
+    zoom: 0x07
+};
+
+// VISCA preset memory numbers available for new presets
+const MAX_PRESET:number = 127;
+
+// VISCA error reply codes
+const ERRORS = {
+    0x01: "message length error",
+    0x02: "syntax error",
+    0x03: "command buffer full",
+    0x04: "command canceled",
+    0x05: "no socket",
+    0x41: "command not executable"
+};
+
+// VISCA vendor identifiers reported by the version inquiry
+const VENDORS = {
+    0x0001: "Sony"
+};
+
+/**
+ * Encode a 16 bit (signed) value as the four nibbles VISCA uses for positions
+ * @param {number} value
+ * @return {Array<number>}
+ */
+function nibbles(value:number):Array<number> {
+    value = Math.round(value) & 0xFFFF;
+    return [ (value >> 12) & 0x0F, (value >> 8) & 0x0F, (value >> 4) & 0x0F, value & 0x0F ];
+}
+
+/**
+ * Decode the four position nibbles starting at the given offset of a VISCA reply
+ * @param {Buffer} payload
+ * @param {number} offset
+ * @param {boolean} signed : true for pan/tilt positions
+ * @return {number}
+ */
+function fromNibbles(payload:Buffer, offset:number, signed:boolean):number {
+    let value = ((payload[offset] & 0x0F) << 12) | ((payload[offset + 1] & 0x0F) << 8) |
+                ((payload[offset + 2] & 0x0F) << 4) | (payload[offset + 3] & 0x0F);
+    return (signed && value > 0x7FFF) ? value - 0x10000 : value;
+}
+
+/**
+ * Scale a normalized velocity (from -1 to +1) into a VISCA speed byte
+ * @param {number} velocity
+ * @param {number} low : lowest speed byte
+ * @param {number} max : highest speed byte
+ * @return {number}
+ */
+function toSpeed(velocity:number, low:number, max:number):number {
+    return clamp(Math.round(Math.abs(velocity) * max), low, max);
+}
+
+/**
+ * Scale a normalized position (from 'low' to +1) into a VISCA position range
+ * @param {number} value : normalized position
+ * @param {number} low : lowest normalized position (-1 for pan/tilt; 0 for zoom)
+ * @param range : VISCA position range { min, max }
+ * @return {number} VISCA position
+ */
+function toPosition(value:number, low:number, range:any):number {
+    value = clamp(value, low, 1);
+    return Math.round(range.min + ((value - low) / (1 - low)) * (range.max - range.min));
+}
+
+/**
+ * Scale a VISCA position back into a normalized position (from 'low' to +1)
+ * @param {number} value : VISCA position
+ * @param {number} low : lowest normalized position (-1 for pan/tilt; 0 for zoom)
+ * @param range : VISCA position range { min, max }
+ * @return {number} normalized position
+ */
+function fromPosition(value:number, low:number, range:any):number {
+    if(range.max === range.min) return low;
+    return clamp(low + ((value - range.min) / (range.max - range.min)) * (1 - low), low, 1);
+}
+
+/**
+ * This driver controls broadcast PTZ cameras (Sony SRG, PTZOptics and
+ * others) using VISCA over UDP or TCP. Cameras that accept the VISCA over
+ * IP header (Sony) are driven over UDP by default; set 'visca-transport'
+ * to 'tcp' for cameras that accept raw VISCA over TCP. VISCA cameras do
+ * not list their presets; preset names are taken from the 'presets'
+ * setting of the camera ({ "<preset number>": "<name>" }) and from the
+ * presets stored through this driver.
+ */
+export class ViscaDriver extends EventEmitter implements CameraDriver{
+
+    protected readonly _options:any;
+    protected _settings:CameraConfig = null;
+    protected _host:string = null;
+    protected _port:number = null;
+    protected _remote:string = null;
+    protected _transport:string = "udp";
+    protected _header:boolean = true;
+    protected _address:number = DEFAULT_ADDRESS;
+    protected _limits:any = DEFAULT_LIMITS;
+    protected _maxSpeed:any = DEFAULT_MAX_SPEED;
+    protected _presets:Map<string, string> = new Map();
+    protected _socket:any = null;
+    protected _connecting:Promise<any> = null;
+    protected _buffer:Buffer = Buffer.alloc(0);
+    protected _sequence:number = 0;
+    protected _pending:any = null;
+    protected _chain:Promise<any> = Promise.resolve();
+    protected _watchdog:any = null;
+
+    /**
+     * Default Constructor
+     */
+    public constructor(options?:any|undefined){
+        super();
+
+        // apply provided options; merge with defaults
+        if(options)
+            this._options = _.defaults(options, default_options);
+        else
+            this._options = default_options;
+    }
+
+    /**
+     * Open the VISCA connection to the camera and request its version information
+     * @param {CameraSource} source : camera source to control
+     * @param {CameraConfig} settings : per-camera settings
+     * @return {Promise<any>} return promise with { info }
+     */
+    public initialize(source:CameraSource, settings:CameraConfig):Promise<any>{
+        let self = this;
+        self.close();
+
+        self._settings = settings;
+        self._host = new URL(source.uri).hostname;
+        self._transport = (settings.viscaTransport === "tcp") ? "tcp" : "udp";
+        self._port = settings.viscaPort || ((self._transport === "tcp") ? DEFAULT_TCP_PORT : DEFAULT_UDP_PORT);
+        self._header = (typeof settings.viscaHeader === 'boolean') ? settings.viscaHeader : (self._transport === "udp");
+        self._address = clamp(settings.viscaAddress || DEFAULT_ADDRESS, 1, 7);
+        self._limits = _.defaults(settings.viscaLimits || {}, DEFAULT_LIMITS);
+        self._maxSpeed = _.defaults(settings.viscaMaxSpeed || {}, DEFAULT_MAX_SPEED);
+
+        // preset names configured for this camera
+        self._presets = new Map();
+        _.each(settings.presets || {}, (name:any, token:string) => self._presets.set(String(parseInt(token)), String(name)));
+
+        // the VISCA over IP sequence number must be reset before the first command
+        let reset:Promise<any> = (self._header) ? self.control([ 0x01 ]) : Promise.resolve();
+        return reset.then(() => {
+            return self.inquiry([ 0x09, 0x00, 0x02 ]);
+        }).then((reply:Buffer) => {
+            let vendor = reply.readUInt16BE(2);
+            return {
+                info: {
+                    manufacturer: VENDORS[vendor] || "VISCA vendor 0x" + ("000" + vendor.toString(16)).slice(-4),
+                    model: "0x" + ("000" + reply.readUInt16BE(4).toString(16)).slice(-4),
+                    firmwareVersion: "0x" + ("000" + reply.readUInt16BE(6).toString(16)).slice(-4)
+                }
+            };
+        });
+    }
+
+    /**
+     * Returns the PTZ capabilities of the camera; positions are only calibrated
+     * if the VISCA position limits of the camera model are configured
+     * @return {DriverCapabilities}
+     */
+    public capabilities():DriverCapabilities{
+        let ptz = !!this._host;
+        return {
+            ptz: ptz,
+            absolute: ptz,
+            relative: ptz,
+            calibrated: ptz && !!this._settings.viscaLimits,
+            status: ptz,
+            presets: ptz,
+            home: ptz
+        };
+    }
+
+    /**
+     * Start (or update) a continuous pan/tilt drive and zoom. VISCA cameras keep
+     * moving until stopped, so the move is stopped by this driver if it is not
+     * refreshed before the 'ptz-move-timeout' expires.
+     * @param {number} pan : velocity between -1 and +1
+     * @param {number} tilt : velocity between -1 and +1
+     * @param {number} zoom : velocity between -1 and +1
+     * @return {Promise<void>}
+     */
+    public continuousMove(pan:number, tilt:number, zoom:number):Promise<void>{
+        let self = this;
+        self.watchdog(pan !== 0 || tilt !== 0 || zoom !== 0);
+
+        let pan_direction = (pan < 0) ? 0x01 : (pan > 0) ? 0x02 : 0x03;
+        let tilt_direction = (tilt > 0) ? 0x01 : (tilt < 0) ? 0x02 : 0x03;
+        let zoom_direction = (zoom > 0) ? 0x20 : (zoom < 0) ? 0x30 : 0x00;
+        let zoom_speed = (zoom !== 0) ? toSpeed(zoom, 0, self._maxSpeed.zoom) : 0;
+
+        return self.command([ 0x01, 0x06, 0x01,
+                              toSpeed(pan, 1, self._maxSpeed.pan),
+                              toSpeed(tilt, 1, self._maxSpeed.tilt),
+                              pan_direction, tilt_direction ]).then(() => {
+            return self.command([ 0x01, 0x04, 0x07, zoom_direction | zoom_speed ]);
+        });
+    }
+
+    /**
+     * Stop all movement
+     * @return {Promise<void>}
+     */
+    public stop():Promise<void>{
+        let self = this;
+        self.watchdog(false);
+        return self.command([ 0x01, 0x06, 0x01, 0x01, 0x01, 0x03, 0x03 ]).then(() => {
+            return self.command([ 0x01, 0x04, 0x07, 0x00 ]);
+        });
+    }
+
+    /**
+     * Move to an absolute position; an omitted axis keeps its current position
+     * @param {number} pan : position between -1 and +1
+     * @param {number} tilt : position between -1 and +1
+     * @param {number} zoom : position between 0 and +1
+     * @return {Promise<void>}
+     */
+    public absoluteMove(pan?:number, tilt?:number, zoom?:number):Promise<void>{
+        let self = this;
+        self.watchdog(false);
+
+        // VISCA absolute moves always include both pan and tilt; zoom is a separate command
+        let current = (isNumber(pan) && isNumber(tilt)) ? Promise.resolve(null) : self.position();
+        let zoom_position = isNumber(zoom) ? toPosition(zoom, 0, self._limits.zoom) : null;
+
+        return current.then((position) => {
+            if(!isNumber(pan) && !isNumber(tilt)) return;
+            let x = isNumber(pan)  ? toPosition(pan, -1, self._limits.pan)   : position.pan;
+            let y = isNumber(tilt) ? toPosition(tilt, -1, self._limits.tilt) : position.tilt;
+            return self.command([ 0x01, 0x06, 0x02, self._maxSpeed.pan, self._maxSpeed.tilt ]
+                                .concat(nibbles(x), nibbles(y)));
+        }).then(() => {
+            if(zoom_position !== null) return self.command([ 0x01, 0x04, 0x47 ].concat(nibbles(zoom_position)));
+        });
+    }
+
+    /**
+     * Move relative to the current position; a translation of 1 moves an axis
+     * by half of its range. VISCA has no relative zoom, so a zoom translation
+     * is performed as an absolute zoom from the current zoom position.
+     * @param {number} pan : translation between -1 and +1
+     * @param {number} tilt : translation between -1 and +1
+     * @param {number} zoom : translation between -1 and +1
+     * @return {Promise<void>}
+     */
+    public relativeMove(pan:number, tilt:number, zoom:number):Promise<void>{
+        let self = this;
+        self.watchdog(false);
+
+        let x = clamp(pan, -1, 1) * (self._limits.pan.max - self._limits.pan.min) / 2;
+        let y = clamp(tilt, -1, 1) * (self._limits.tilt.max - self._limits.tilt.min) / 2;
+        let move = (x === 0 && y === 0) ? Promise.resolve() :
+            self.command([ 0x01, 0x06, 0x03, self._maxSpeed.pan, self._maxSpeed.tilt ].concat(nibbles(x), nibbles(y)));
+
+        return move.then(() => {
+            if(zoom === 0) return;
+            return self.position().then((position) => {
+                let range = self._limits.zoom;
+                let z = clamp(position.zoom + clamp(zoom, -1, 1) * (range.max - range.min), range.min, range.max);
+                return self.command([ 0x01, 0x04, 0x47 ].concat(nibbles(z)));
+            });
+        });
+    }
+
+    /**
+     * Move to the home position
+     * @return {Promise<void>}
+     */
+    public gotoHome():Promise<void>{
+        this.watchdog(false);
+        return this.command([ 0x01, 0x06, 0x04 ]);
+    }
+
+    /**
+     * VISCA has no command to store the home position
+     * @return {Promise<void>}
+     */
+    public setHome():Promise<void>{
+        return Promise.reject(new Error("VISCA cameras do not support storing the home position."));
+    }
+
+    /**
+     * Get the configured and stored PRESETS; VISCA cameras cannot list their presets
+     * @return {Promise<Array<CameraPreset>>}
+     */
+    public getPresets():Promise<Array<CameraPreset>>{
+        let presets = Array.from(this._presets.keys())
+            .sort((a, b) => parseInt(a) - parseInt(b))
+            .map((token) => new CameraPreset({ token: token, name: this._presets.get(token) }));
+        return Promise.resolve(presets);
+    }
+
+    /**
+     * Recall a preset; VISCA preset recalls always use the speed configured on the camera
+     * @param {string} token : preset memory number
+     * @param {number} speed : travel speed (ignored)
+     * @return {Promise<void>}
+     */
+    public gotoPreset(token:string, speed:number):Promise<void>{
+        this.watchdog(false);
+        return this.command([ 0x01, 0x04, 0x3F, 0x02, this.presetNumber(token) ]);
+    }
+
+    /**
+     * Store the current position as a preset; without a token, the lowest
+     * preset memory number without a known preset is used
+     * @param {string} name : preset name
+     * @param {string} token : preset memory number (optional)
+     * @return {Promise<string>} return promise with the preset token
+     */
+    public setPreset(name:string, token?:string):Promise<string>{
+        let self = this;
+        if(!token) {
+            for(let n = 1; n <= MAX_PRESET && !token; n++)
+                if(!self._presets.has(String(n))) token = String(n);
+            if(!token) return Promise.reject(new Error("Unable to store preset; all VISCA preset memories are in use."));
+        }
+
+        let number:number;
+        try { number = self.presetNumber(token); } catch(error) { return Promise.reject(error); }
+        return self.command([ 0x01, 0x04, 0x3F, 0x01, number ]).then(() => {
+            self._presets.set(String(number), name);
+            return String(number);
+        });
+    }
+
+    /**
+     * Reset a preset memory
+     * @param {string} token : preset memory number
+     * @return {Promise<void>}
+     */
+    public removePreset(token:string):Promise<void>{
+        let self = this;
+        let number:number;
+        try { number = self.presetNumber(token); } catch(error) { return Promise.reject(error); }
+        return self.command([ 0x01, 0x04, 0x3F, 0x00, number ]).then(() => {
+            self._presets.delete(String(number));
+        });
+    }
+
+    /**
+     * Get the current position (normalized to the configured VISCA limits);
+     * VISCA cameras do not report their movement status
+     * @return {Promise<any>} return promise with { pan, tilt, zoom, moving }
+     */
+    public getStatus():Promise<any>{
+        let self = this;
+        return self.position().then((position) => {
+            return {
+                pan: fromPosition(position.pan, -1, self._limits.pan),
+                tilt: fromPosition(position.tilt, -1, self._limits.tilt),
+                zoom: fromPosition(position.zoom, 0, self._limits.zoom),
+                moving: null
+            };
+        });
+    }
+
+    /**
+     * Close the VISCA connection; pending requests are rejected
+     */
+    public close():void{
+        this.watchdog(false);
+        if(this._pending) this.settle(new Error("The VISCA connection has been closed."));
+        if(this._socket) {
+            if(this._transport === "tcp") this._socket.destroy();
+            else this._socket.close();
+        }
+        this._socket = null;
+        this._connecting = null;
+        this._host = null;
+        this._buffer = Buffer.alloc(0);
+    }
+
+    /**
+     * Parse a preset token into a VISCA preset memory number
+     * @param {string} token
+     * @return {number}
+     * @throws {Error} if the token is not a valid preset memory number
+     */
+    protected presetNumber(token:string):number{
+        let number = parseInt(token);
+        if(isNaN(number) || number < 0 || number > 0xFF)
+            throw new Error("Invalid VISCA preset number: " + token);
+        return number;
+    }
+
+    /**
+     * Start, refresh or cancel the timer that stops a continuous move that was not refreshed
+     * @param {boolean} moving
+     */
+    protected watchdog(moving:boolean):void{
+        let self = this;
+        if(self._watchdog) clearTimeout(self._watchdog);
+        self._watchdog = null;
+        if(!moving) return;
+
+        self._watchdog = setTimeout(() => {
+            self._watchdog = null;
+            self.stop().catch((error) => self.emit("error", new Error("Unable to stop VISCA camera after move timeout: " + error.message)));
+        }, self._options["ptz-move-timeout"] * 1000);
+    }
+
+    /**
+     * Request the current VISCA pan/tilt and zoom positions
+     * @return {Promise<any>} return promise with { pan, tilt, zoom } in VISCA units
+     */
+    protected position():Promise<any>{
+        let self = this;
+        let position:any = {};
+        return self.inquiry([ 0x09, 0x06, 0x12 ]).then((reply:Buffer) => {
+            position.pan = fromNibbles(reply, 2, true);
+            position.tilt = fromNibbles(reply, 6, true);
+            return self.inquiry([ 0x09, 0x04, 0x47 ]);
+        }).then((reply:Buffer) => {
+            position.zoom = fromNibbles(reply, 2, false);
+            return position;
+        });
+    }
+
+    /**
+     * Send a VISCA command; resolved once the camera acknowledges the command
+     * @param {Array<number>} payload : command bytes without the address and terminator
+     * @return {Promise<void>}
+     */
+    protected command(payload:Array<number>):Promise<void>{
+        return this.request(VISCA_COMMAND, [ 0x80 | this._address ].concat(payload, [ 0xFF ])).then(() => {});
+    }
+
+    /**
+     * Send a VISCA inquiry
+     * @param {Array<number>} payload : inquiry bytes without the address and terminator
+     * @return {Promise<Buffer>} return promise with the inquiry reply
+     */
+    protected inquiry(payload:Array<number>):Promise<Buffer>{
+        return this.request(VISCA_INQUIRY, [ 0x80 | this._address ].concat(payload, [ 0xFF ]));
+    }
+
+    /**
+     * Send a VISCA over IP control command
+     * @param {Array<number>} payload
+     * @return {Promise<Buffer>}
+     */
+    protected control(payload:Array<number>):Promise<Buffer>{
+        this._sequence = 0;
+        return this.request(CONTROL_COMMAND, payload);
+    }
+
+    /**
+     * Send a request to the camera and wait for its reply; requests are sent
+     * one at a time (including the stop sent when a move times out)
+     * @param {number} type : VISCA over IP message type
+     * @param {Array<number>} payload
+     * @return {Promise<Buffer>} return promise with the reply payload
+     */
+    protected request(type:number, payload:Array<number>):Promise<Buffer>{
+        let self = this;
+        let result = self._chain.then(() => self.connect()).then(() => {
+            return new Promise<Buffer>((resolve, reject) => {
+                if(!self._socket) {
+                    reject(new Error("The VISCA connection has been closed."));
+                    return;
+                }
+
+                let message = Buffer.from(payload);
+                let sequence = self._sequence;
+                if(self._header) {
+                    let header = Buffer.alloc(8);
+                    header.writeUInt16BE(type, 0);
+                    header.writeUInt16BE(message.length, 2);
+                    header.writeUInt32BE(sequence, 4);
+                    self._sequence = (self._sequence + 1) >>> 0;
+                    message = Buffer.concat([ header, message ]);
+                }
+
+                self._pending = {
+                    type: type,
+                    sequence: sequence,
+                    resolve: resolve,
+                    reject: reject,
+                    timer: setTimeout(() => {
+                        self.settle(new Error("The VISCA camera at " + self._host + ":" + self._port + " did not respond."));
+                    }, self._options["visca-timeout"])
+                };
+
+                if(self._transport === "tcp") self._socket.write(message);
+                else self._socket.send(message, self._port, self._remote);
+            });
+        });
+        self._chain = result.catch(() => {});
+        return result;
+    }
+
+    /**
+     * Resolve or reject the pending request
+     * @param {Error} error : rejects the request if provided
+     * @param {Buffer} reply : resolves the request with the reply
+     */
+    protected settle(error:Error, reply?:Buffer):void{
+        let pending = this._pending;
+        if(!pending) return;
+        this._pending = null;
+        clearTimeout(pending.timer);
+        if(error) pending.reject(error);
+        else pending.resolve(reply);
+    }
+
+    /**
+     * Open the UDP socket or TCP connection to the camera (if not already open)
+     * @return {Promise<void>}
+     */
+    protected connect():Promise<void>{
+        let self = this;
+        if(!self._host) return Promise.reject(new Error("The VISCA camera is not initialized."));
+        if(self._socket) return Promise.resolve();
+        if(self._connecting) return self._connecting;
+
+        if(self._transport === "udp") {
+            // resolve the camera address so that datagrams received from any other host are ignored
+            self._connecting = new Promise<void>((resolve, reject) => {
+                dns.lookup(self._host, 4, (error, address) => {
+                    self._connecting = null;
+                    if(error) return reject(new Error("Unable to resolve VISCA camera address '" + self._host + "': " + error.message));
+                    self._remote = address;
+                    self._socket = dgram.createSocket('udp4');
+                    self._socket.on('message', (data:Buffer, peer:any) => {
+                        if(peer.address === self._remote && peer.port === self._port) self.receive(data, true);
+                    });
+                    self._socket.on('error', (error) => self.emit("error", error));
+                    resolve();
+                });
+            });
+            return self._connecting;
+        }
+
+        self._connecting = new Promise<void>((resolve, reject) => {
+            let socket = net.connect(self._port, self._host);
+            socket.setNoDelay(true);
+
+            // give up if the connection is not established within the request timeout
+            socket.setTimeout(self._options["visca-timeout"], () => {
+                if(self._socket === socket) return;
+                self._connecting = null;
+                socket.destroy();
+                reject(new Error("Unable to connect to VISCA camera at " + self._host + ":" + self._port + ": connection timed out"));
+            });
+            socket.on('connect', () => {
+                socket.setTimeout(0);
+                self._connecting = null;
+                self._socket = socket;
+                self._buffer = Buffer.alloc(0);
+                resolve();
+            });
+            socket.on('data', (data:Buffer) => self.receive(data, false));
+            socket.on('error', (error) => {
+                if(self._connecting) {
+                    self._connecting = null;
+                    reject(new Error("Unable to connect to VISCA camera at " + self._host + ":" + self._port + ": " + error.message));
+                }
+                else self.emit("error", error);
+            });
+            socket.on('close', () => {
+                // reconnect on the next request
+                if(self._socket === socket) self._socket = null;
+                self.settle(new Error("The VISCA connection has been closed."));
+            });
+        });
+        return self._connecting;
+    }
+
+    /**
+     * Split received data into VISCA messages; with the VISCA over IP header each
+     * message is framed by the header, otherwise messages end with 0xFF
+     * @param {Buffer} data
+     * @param {boolean} datagram : true if the data is a complete UDP datagram
+     */
+    protected receive(data:Buffer, datagram:boolean):void{
+        let buffer = (datagram) ? data : Buffer.concat([ this._buffer, data ]);
+
+        while(buffer.length > 0) {
+            if(this._header) {
+                if(buffer.length < 8) break;
+                let length = buffer.readUInt16BE(2);
+                if(buffer.length < 8 + length) break;
+                this.reply(buffer.readUInt16BE(0), buffer.slice(8, 8 + length), buffer.readUInt32BE(4));
+                buffer = buffer.slice(8 + length);
+            }
+            else {
+                let end = buffer.indexOf(0xFF);
+                if(end < 0) break;
+                this.reply(VISCA_REPLY, buffer.slice(0, end + 1), null);
+                buffer = buffer.slice(end + 1);
+            }
+        }
+
+        // keep a partial message for the next TCP data (discard runaway data)
+        this._buffer = (datagram || buffer.length > 1024) ? Buffer.alloc(0) : buffer;
+    }
+
+    /**
+     * Handle a VISCA message received from the camera. Commands are resolved by
+     * the acknowledgement; inquiries by the completion carrying the inquiry data.
+     * Completions (and cancellations) of earlier commands arrive late; with the
+     * VISCA over IP header they are recognized by their sequence number, without
+     * it they are ignored.
+     * @param {number} type : VISCA over IP message type
+     * @param {Buffer} payload
+     * @param {number} sequence : VISCA over IP sequence number (null without the header)
+     */
+    protected reply(type:number, payload:Buffer, sequence:number):void{
+        let pending = this._pending;
+        if(!pending) return;
+
+        if(type === CONTROL_REPLY) {
+            if(pending.type === CONTROL_COMMAND) this.settle(null, payload);
+            return;
+        }
+        if(sequence !== null && sequence !== pending.sequence) return;
+        if(payload.length < 3) return;
+
+        let kind = payload[1] & 0xF0;
+        if(kind === 0x60) {
+            let code = payload[2];
+            if(code === 0x04 && sequence === null) return;
+            this.settle(new Error("The VISCA camera rejected the request: " + (ERRORS[code] || "error 0x" + code.toString(16))));
+        }
+        else if(pending.type === VISCA_INQUIRY) {
+            if(kind === 0x50 && payload.length > 3) this.settle(null, payload);
+        }
+        else if(pending.type === VISCA_COMMAND) {
+            if(kind === 0x40 || (kind === 0x50 && payload.length === 3 && sequence !== null)) this.settle(null, payload);
+        }
+    }
+}
@@ -30,10 +30,31 @@
 
 export { MonocleClient } from "./MonocleClient";
 export { CameraController } from "./controller/CameraController";
+export { CameraPool } from "./controller/CameraPool";
+export { TourController } from "./controller/TourController";
+export { CommandQueue } from "./controller/CommandQueue";
+export { CameraDriver, DriverCapabilities } from "./driver/CameraDriver";
+export { DriverRegistry } from "./driver/DriverRegistry";
+export { OnvifDriver } from "./driver/OnvifDriver";
+export { PelcoDriver } from "./driver/PelcoDriver";
+export { SimulatedCamera } from "./driver/SimulatedCamera";
+export { SimulatedDriver } from "./driver/SimulatedDriver";
+export { ViscaDriver } from "./driver/ViscaDriver";
+export { CommandParser } from "./service/CommandParser";
+export { OscCodec } from "./service/OscCodec";
 export { PTZControllerService } from "./service/PTZControllerService";
+export { ControllerAuth } from "./service/ControllerAuth";
+export { MqttBridge } from "./service/MqttBridge";
+export { OnvifSimulator } from "./service/OnvifSimulator";
 export { Resolution } from "./model/Resolution";
 export { CameraSource } from "./model/CameraSource";
+export { CameraConfig } from "./model/CameraConfig";
 export { CameraInfo } from "./model/CameraInfo";
 export { CameraPreset } from "./model/CameraPreset";
+export { CameraProfile } from "./model/CameraProfile";
+export { CameraStatus } from "./model/CameraStatus";
+export { SpeedCurve } from "./model/SpeedCurve";
+export { PresetTour } from "./model/PresetTour";
+export { ControllerIdentity } from "./model/ControllerIdentity";
 export { Camera } from "./model/Camera";
 
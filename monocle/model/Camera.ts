@@ -29,6 +29,7 @@
 import {CameraSource} from "./CameraSource";
 import {CameraInfo} from "./CameraInfo";
 import {CameraPreset} from "./CameraPreset";
+import {CameraProfile} from "./CameraProfile";
 
 export class Camera{
 
@@ -45,6 +46,8 @@ export class Camera{
     public readonly serialNumber: string;
     public readonly ptz: boolean;
     public readonly presets: Array<CameraPreset>;
+    public readonly profile: CameraProfile;
+    public readonly profiles: Array<CameraProfile>;
     public readonly error: string;
 
     /**
@@ -60,6 +63,8 @@ export class Camera{
             this._info = (data.info) ?  new CameraInfo(data.info) : new CameraInfo();
             this.ptz = (data.ptz) ? data.ptz : false;
             if(data.presets) this.presets = data.presets;
+            if(data.profile) this.profile = new CameraProfile(data.profile);
+            if(data.profiles) this.profiles = data.profiles;
             if(data.error) this.error = data.error;
             if(data.source && data.source.uuid) this.uuid = data.source.uuid;
             if(data.info && data.info.serialNumber) this.serialNumber = data.info.serialNumber;
@@ -0,0 +1,124 @@
+/*
+ **********************************************************************
+ *             __  __  ___  _  _  ___   ___ _    ___
+ *            |  \/  |/ _ \| \| |/ _ \ / __| |  | __|
+ *            | |\/| | (_) | .` | (_) | (__| |__| _|
+ *            |_|  |_|\___/|_|\_|\___/ \___|____|___|
+ *
+ * -------------------------------------------------------------------
+ *                    MONOCLE GATEWAY SERVICE
+ * -------------------------------------------------------------------
+ *
+ *  The Monocle Gateway Service is a small service that you install
+ *  and run inside your network to order to facilitate communication
+ *  between the Monocle (cloud) platform and your cameras. This
+ *  service is required if you want to implement one of the PTZ
+ *  controllers included in the Monocle project. The Monocle Gateway
+ *  Service DOES NOT communicate ANY video or audio content to the
+ *  Internet. It's sole purpose is to provide camera control
+ *  integration for PTZ cameras.
+ *
+ * -------------------------------------------------------------------
+ *        COPYRIGHT SHADEBLUE, LLC @ 2018, ALL RIGHTS RESERVED
+ * -------------------------------------------------------------------
+ *
+ **********************************************************************
+ */
+
+
+import {URL} from 'url';
+import {CameraSource} from "./CameraSource";
+
+/**
+ * Per-camera settings loaded from the 'cameras' section of the
+ * 'config.json' file. Each entry is matched to a camera source by
+ * its 'uuid', 'name' or 'hostname' attribute.
+ */
+export class CameraConfig{
+
+    // camera source matching criteria
+    public readonly uuid: string;
+    public readonly name: string;
+    public readonly hostname: string;
+
+    // camera connection settings
+    public readonly driver: string;
+    public readonly username: string;
+    public readonly password: string;
+    public readonly onvifPort: number;
+    public readonly onvifPath: string;
+    public readonly onvifXaddr: string;
+    public readonly onvifHttps: boolean;
+    public readonly onvifInsecure: boolean;
+    public readonly viscaPort: number;
+    public readonly viscaTransport: string;
+    public readonly viscaAddress: number;
+    public readonly viscaHeader: boolean;
+    public readonly viscaLimits: any;
+    public readonly viscaMaxSpeed: any;
+    public readonly pelcoHost: string;
+    public readonly pelcoPort: number;
+    public readonly pelcoAddress: number;
+    public readonly profile: string;
+    public readonly speed: any;
+    public readonly presetSlots: any;
+    public readonly presets: any;
+
+    /**
+     * Find the camera settings that apply to a camera source. Matches on
+     * the source 'uuid' take precedence over matches on the source 'name',
+     * which take precedence over matches on the source URI 'hostname'.
+     *
+     * @param {Array<any>} cameras : the 'cameras' section of the config file
+     * @param {CameraSource} source : camera source to find settings for
+     * @return {CameraConfig} matching camera settings or empty settings if none match
+     */
+    public static find(cameras:Array<any>, source:CameraSource):CameraConfig{
+        if(!cameras || !Array.isArray(cameras) || !source) return new CameraConfig();
+
+        let configs = cameras.map((camera) => new CameraConfig(camera));
+        let hostname = null;
+        try { hostname = new URL(source.uri).hostname.toLowerCase(); } catch(e) { }
+
+        let match = configs.find((c) => c.uuid && c.uuid === source.uuid) ||
+                    configs.find((c) => c.name && source.name && c.name.toLowerCase() === source.name.toLowerCase()) ||
+                    configs.find((c) => c.hostname && hostname && c.hostname.toLowerCase() === hostname);
+        return match || new CameraConfig();
+    }
+
+    /**
+     * Default Constructor
+     *
+     * @param source - json or object to seed model object
+     */
+    constructor(source?:any) {
+
+        // set initial values from source object
+        if(source){
+            if(source.uuid) this.uuid = source.uuid;
+            if(source.name) this.name = source.name;
+            if(source.hostname) this.hostname = source.hostname;
+            if(source.driver) this.driver = String(source.driver);
+            if(source.username) this.username = source.username;
+            if(source.password) this.password = source.password;
+            if(source["onvif-port"]) this.onvifPort = parseInt(source["onvif-port"]);
+            if(source["onvif-path"]) this.onvifPath = source["onvif-path"];
+            if(source["onvif-xaddr"]) this.onvifXaddr = source["onvif-xaddr"];
+            this.onvifHttps = (source["onvif-https"] === true);
+            this.onvifInsecure = (source["onvif-insecure"] === true);
+            if(source["visca-port"]) this.viscaPort = parseInt(source["visca-port"]);
+            if(source["visca-transport"]) this.viscaTransport = String(source["visca-transport"]).toLowerCase();
+            if(source["visca-address"]) this.viscaAddress = parseInt(source["visca-address"]);
+            if(typeof source["visca-header"] === 'boolean') this.viscaHeader = source["visca-header"];
+            if(source["visca-limits"]) this.viscaLimits = source["visca-limits"];
+            if(source["visca-max-speed"]) this.viscaMaxSpeed = source["visca-max-speed"];
+            if(source["pelco-host"]) this.pelcoHost = source["pelco-host"];
+            if(source["pelco-port"]) this.pelcoPort = parseInt(source["pelco-port"]);
+            if(source["pelco-address"]) this.pelcoAddress = parseInt(source["pelco-address"]);
+            if(source.profile) this.profile = source.profile;
+            if(source.speed) this.speed = source.speed;
+            if(source["preset-slots"]) this.presetSlots = source["preset-slots"];
+            if(source.presets) this.presets = source.presets;
+        }
+    }
+}
@@ -26,11 +26,74 @@
  */
 
 
+/**
+ * Normalize a preset name for comparison (case and punctuation insensitive)
+ * @param {string} name
+ * @return {string}
+ */
+function normalize(name:string):string {
+    return (name || "").toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Calculate the edit (Levenshtein) distance between two strings
+ * @return {number}
+ */
+function distance(a:string, b:string):number {
+    let previous:Array<number> = [];
+    for(let j = 0; j <= b.length; j++) previous.push(j);
+    for(let i = 1; i <= a.length; i++) {
+        let current:Array<number> = [ i ];
+        for(let j = 1; j <= b.length; j++) {
+            let cost = (a[i - 1] === b[j - 1]) ? 0 : 1;
+            current.push(Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
 export class CameraPreset{
 
     public readonly token: string;
     public readonly name: string;
 
+    /**
+     * Find a preset by name. An exact (case-insensitive) name match is
+     * preferred; otherwise the names are compared ignoring punctuation and
+     * white space, then by prefix, and finally by the closest edit distance.
+     *
+     * @param {Array<CameraPreset>} presets : presets to search
+     * @param {string} name : preset name to find
+     * @return {CameraPreset} matching preset or null if no preset is a close match
+     */
+    public static find(presets:Array<CameraPreset>, name:string):CameraPreset{
+        if(!presets || !name) return null;
+
+        // exact case-insensitive match
+        let match = presets.find((p) => p.name && p.name.toLowerCase() === name.toLowerCase());
+        if(match) return match;
+
+        // fuzzy match; ignore case, punctuation and white space
+        let target = normalize(name);
+        if(!target) return null;
+        match = presets.find((p) => normalize(p.name) === target) ||
+                presets.find((p) => normalize(p.name).startsWith(target));
+        if(match) return match;
+
+        // closest edit distance; allow roughly one typo for every four characters
+        let best:CameraPreset = null;
+        let bestDistance = Math.max(1, Math.floor(target.length / 4)) + 1;
+        for(let preset of presets) {
+            let d = distance(normalize(preset.name), target);
+            if(d < bestDistance) {
+                best = preset;
+                bestDistance = d;
+            }
+        }
+        return best;
+    }
+
 
     /**
      * Default Constructor
@@ -0,0 +1,77 @@
+/*
+ **********************************************************************
+ *             __  __  ___  _  _  ___   ___ _    ___
+ *            |  \/  |/ _ \| \| |/ _ \ / __| |  | __|
+ *            | |\/| | (_) | .` | (_) | (__| |__| _|
+ *            |_|  |_|\___/|_|\_|\___/ \___|____|___|
+ *
+ * -------------------------------------------------------------------
+ *                    MONOCLE GATEWAY SERVICE
+ * -------------------------------------------------------------------
+ *
+ *  The Monocle Gateway Service is a small service that you install
+ *  and run inside your network to order to facilitate communication
+ *  between the Monocle (cloud) platform and your cameras. This
+ *  service is required if you want to implement one of the PTZ
+ *  controllers included in the Monocle project. The Monocle Gateway
+ *  Service DOES NOT communicate ANY video or audio content to the
+ *  Internet. It's sole purpose is to provide camera control
+ *  integration for PTZ cameras.
+ *
+ * -------------------------------------------------------------------
+ *        COPYRIGHT SHADEBLUE, LLC @ 2018, ALL RIGHTS RESERVED
+ * -------------------------------------------------------------------
+ *
+ **********************************************************************
+ */
+
+
+/**
+ * PTZ position and movement status of a camera. Positions are
+ * normalized: pan and tilt range from -1 to +1 and zoom from 0 to +1.
+ */
+export class CameraStatus{
+
+    public static readonly IDLE:string = "IDLE";
+    public static readonly MOVING:string = "MOVING";
+
+    public readonly uuid: string;
+    public readonly pan: number;
+    public readonly tilt: number;
+    public readonly zoom: number;
+    public readonly moveStatus: string;
+    public readonly timestamp: Date;
+
+
+    /**
+     * Default Constructor
+     *
+     * @param source - json or object to seed model object
+     */
+    constructor(source?:any) {
+
+        // set initial values from source object
+        if(source){
+            if(source.uuid) this.uuid = source.uuid;
+            if(typeof source.pan === 'number') this.pan = source.pan;
+            if(typeof source.tilt === 'number') this.tilt = source.tilt;
+            if(typeof source.zoom === 'number') this.zoom = source.zoom;
+            this.moveStatus = (source.moveStatus) ? source.moveStatus : CameraStatus.IDLE;
+            this.timestamp = (source.timestamp) ? source.timestamp : new Date();
+        }
+    }
+
+    /**
+     * Returns true if this status differs in position or movement from another status
+     * @param {CameraStatus} other
+     * @return {boolean}
+     */
+    public differs(other:CameraStatus):boolean {
+        if(!other) return true;
+        let round = (value:number) => Math.round(value * 1000);
+        return this.moveStatus !== other.moveStatus ||
+               round(this.pan) !== round(other.pan) ||
+               round(this.tilt) !== round(other.tilt) ||
+               round(this.zoom) !== round(other.zoom);
+    }
+}
@@ -0,0 +1,115 @@
+/*
+ **********************************************************************
+ *             __  __  ___  _  _  ___   ___ _    ___
+ *            |  \/  |/ _ \| \| |/ _ \ / __| |  | __|
+ *            | |\/| | (_) | .` | (_) | (__| |__| _|
+ *            |_|  |_|\___/|_|\_|\___/ \___|____|___|
+ *
+ * -------------------------------------------------------------------
+ *                    MONOCLE GATEWAY SERVICE
+ * -------------------------------------------------------------------
+ *
+ *  The Monocle Gateway Service is a small service that you install
+ *  and run inside your network to order to facilitate communication
+ *  between the Monocle (cloud) platform and your cameras. This
+ *  service is required if you want to implement one of the PTZ
+ *  controllers included in the Monocle project. The Monocle Gateway
+ *  Service DOES NOT communicate ANY video or audio content to the
+ *  Internet. It's sole purpose is to provide camera control
+ *  integration for PTZ cameras.
+ *
+ * -------------------------------------------------------------------
+ *        COPYRIGHT SHADEBLUE, LLC @ 2018, ALL RIGHTS RESERVED
+ * -------------------------------------------------------------------
+ *
+ **********************************************************************
+ */
+
+
+import {Camera} from "./Camera";
+
+/**
+ * Identity of an authenticated PTZ controller. Controllers authenticate
+ * with either the shared secret or a per-device token issued by pairing;
+ * commands received over MQTT or OSC use a configured identity.
+ * Each identity is granted a role and may be restricted to a list of
+ * cameras (by uuid or name); an empty list grants access to all cameras.
+ */
+export class ControllerIdentity{
+
+    public static readonly SECRET:string = "secret";
+    public static readonly DEVICE:string = "device";
+    public static readonly ANONYMOUS:string = "anonymous";
+    public static readonly MQTT:string = "mqtt";
+    public static readonly OSC:string = "osc";
+
+    // roles in ascending order of privilege
+    public static readonly VIEWER:string = "viewer";
+    public static readonly OPERATOR:string = "operator";
+    public static readonly ADMIN:string = "admin";
+    public static readonly ROLES:Array<string> = [
+        ControllerIdentity.VIEWER,
+        ControllerIdentity.OPERATOR,
+        ControllerIdentity.ADMIN
+    ];
+
+    public readonly id: string;
+    public readonly name: string;
+    public readonly type: string;
+    public readonly role: string;
+    public readonly cameras: Array<string> = [];
+    public readonly created: Date;
+
+
+    /**
+     * Default Constructor
+     *
+     * @param source - json or object to seed model object
+     */
+    constructor(source?:any) {
+
+        // set initial values from source object
+        if(source){
+            if(source.id) this.id = source.id;
+            if(source.name) this.name = source.name;
+            this.type = (source.type) ? source.type : ControllerIdentity.DEVICE;
+            this.role = ControllerIdentity.isRole(source.role) ? source.role.toLowerCase() : ControllerIdentity.OPERATOR;
+            if(Array.isArray(source.cameras)) this.cameras = source.cameras.map((c:any) => String(c));
+            if(source.created) this.created = new Date(source.created);
+        }
+    }
+
+    /**
+     * Returns true if the value is a known controller role
+     * @param value
+     * @return {boolean}
+     */
+    public static isRole(value:any):boolean {
+        return typeof value === 'string' && ControllerIdentity.ROLES.indexOf(value.toLowerCase()) >= 0;
+    }
+
+    /**
+     * Returns true if this identity's role grants at least the privileges of the given role
+     * @param {string} role
+     * @return {boolean}
+     */
+    public permits(role:string):boolean {
+        return ControllerIdentity.ROLES.indexOf(this.role) >= ControllerIdentity.ROLES.indexOf(role);
+    }
+
+    /**
+     * Returns true if this identity may address the given camera
+     * @param {Camera|string} camera : camera or camera uuid
+     * @return {boolean}
+     */
+    public canAccess(camera:Camera|string):boolean {
+        if(this.cameras.length === 0) return true;
+        if(!camera) return false;
+        let uuid = (typeof camera === 'string') ? camera : camera.uuid;
+        let name = (typeof camera === 'string') ? null : camera.name;
+        return this.cameras.some((c) => {
+            c = c.toLowerCase();
+            return (uuid && uuid.toLowerCase() === c) || (name && name.toLowerCase() === c);
+        });
+    }
+}
@@ -0,0 +1,69 @@
+/*
+ **********************************************************************
+ *             __  __  ___  _  _  ___   ___ _    ___
+ *            |  \/  |/ _ \| \| |/ _ \ / __| |  | __|
+ *            | |\/| | (_) | .` | (_) | (__| |__| _|
+ *            |_|  |_|\___/|_|\_|\___/ \___|____|___|
+ *
+ * -------------------------------------------------------------------
+ *                    MONOCLE GATEWAY SERVICE
+ * -------------------------------------------------------------------
+ *
+ *  The Monocle Gateway Service is a small service that you install
+ *  and run inside your network to order to facilitate communication
+ *  between the Monocle (cloud) platform and your cameras. This
+ *  service is required if you want to implement one of the PTZ
+ *  controllers included in the Monocle project. The Monocle Gateway
+ *  Service DOES NOT communicate ANY video or audio content to the
+ *  Internet. It's sole purpose is to provide camera control
+ *  integration for PTZ cameras.
+ *
+ * -------------------------------------------------------------------
+ *        COPYRIGHT SHADEBLUE, LLC @ 2018, ALL RIGHTS RESERVED
+ * -------------------------------------------------------------------
+ *
+ **********************************************************************
+ */
+
+
+/**
+ * A preset patrol (guard) tour; a named sequence of preset steps where each
+ * step has a dwell time (in seconds) and a travel speed (from 0 to +1).
+ * Tours can be defined in the 'tours' section of the 'config.json' file or
+ * created using the PTZ controller protocol.
+ */
+export class PresetTour{
+
+    public static readonly DEFAULT_DWELL:number = 10;  // seconds
+
+    public readonly name: string;
+    public readonly loop: boolean;
+    public readonly steps: Array<any> = [];
+
+
+    /**
+     * Default Constructor
+     *
+     * @param source - json or object to seed model object
+     */
+    constructor(source?:any) {
+
+        // set initial values from source object
+        if(source){
+            if(source.name) this.name = String(source.name);
+            this.loop = (source.loop !== false);
+            if(Array.isArray(source.steps)){
+                for(let step of source.steps){
+                    // a step can either be a preset reference or an object with preset, dwell and speed
+                    if(typeof step === 'string') step = { preset: step };
+                    if(!step || !step.preset) continue;
+                    this.steps.push({
+                        preset: String(step.preset),
+                        dwell: (typeof step.dwell === 'number' && step.dwell >= 0) ? step.dwell : PresetTour.DEFAULT_DWELL,
+                        speed: (typeof step.speed === 'number' && step.speed > 0) ? Math.min(step.speed, 1) : 1
+                    });
+                }
+            }
+        }
+    }
+}
@@ -0,0 +1,122 @@
+/*
+ **********************************************************************
+ *             __  __  ___  _  _  ___   ___ _    ___
+ *            |  \/  |/ _ \| \| |/ _ \ / __| |  | __|
+ *            | |\/| | (_) | .` | (_) | (__| |__| _|
+ *            |_|  |_|\___/|_|\_|\___/ \___|____|___|
+ *
+ * -------------------------------------------------------------------
+ *                    MONOCLE GATEWAY SERVICE
+ * -------------------------------------------------------------------
+ *
+ *  The Monocle Gateway Service is a small service that you install
+ *  and run inside your network to order to facilitate communication
+ *  between the Monocle (cloud) platform and your cameras. This
+ *  service is required if you want to implement one of the PTZ
+ *  controllers included in the Monocle project. The Monocle Gateway
+ *  Service DOES NOT communicate ANY video or audio content to the
+ *  Internet. It's sole purpose is to provide camera control
+ *  integration for PTZ cameras.
+ *
+ * -------------------------------------------------------------------
+ *        COPYRIGHT SHADEBLUE, LLC @ 2018, ALL RIGHTS RESERVED
+ * -------------------------------------------------------------------
+ *
+ **********************************************************************
+ */
+
+
+import * as _ from 'underscore';
+
+// Controller speed input scale (from -MAX_INPUT to +MAX_INPUT)
+const MAX_INPUT:number = 3;
+
+// The default 'stepped' curve; the speed produced at each whole input value
+// (0 = stop, 1 = low speed, 2 = medium speed, 3 = high speed)
+const SPEED_STEPS:Array<number> = [0, .2, .5, 1];
+
+/**
+ * Speed curve used to scale a controller speed input (from -3 to +3,
+ * including fractional values from analog controllers) into a camera
+ * speed (from -1 to +1). Speed curves can be configured globally and
+ * per camera using the 'speed' attribute in the 'config.json' file,
+ * optionally overridden for the 'pan', 'tilt' or 'zoom' axis.
+ */
+export class SpeedCurve{
+
+    public static readonly STEPPED:string = "stepped";
+    public static readonly LINEAR:string = "linear";
+    public static readonly EXPONENTIAL:string = "exponential";
+
+    public readonly curve: string = SpeedCurve.STEPPED;
+    public readonly exponent: number = 2;
+    public readonly deadzone: number = 0;
+    public readonly max: number = 1;
+
+    /**
+     * Resolve the speed curve for a camera axis. Settings are applied in the
+     * following order (last wins): global, global axis, camera, camera axis.
+     *
+     * @param {string} axis : 'pan', 'tilt' or 'zoom'
+     * @param global : the global 'speed' configuration (optional)
+     * @param camera : the per-camera 'speed' configuration (optional)
+     * @return {SpeedCurve}
+     */
+    public static resolve(axis:string, global?:any, camera?:any):SpeedCurve{
+        let settings:any = {};
+        if(global) _.extend(settings, global, global[axis]);
+        if(camera) _.extend(settings, camera, camera[axis]);
+        return new SpeedCurve(settings);
+    }
+
+    /**
+     * Default Constructor
+     *
+     * @param source - json or object to seed model object
+     */
+    constructor(source?:any) {
+
+        // set initial values from source object
+        if(source){
+            if(source.curve) this.curve = source.curve.toLowerCase();
+            if(typeof source.exponent === 'number') this.exponent = source.exponent;
+            if(typeof source.deadzone === 'number') this.deadzone = Math.min(Math.max(source.deadzone, 0), .99);
+            if(typeof source.max === 'number') this.max = Math.min(Math.max(source.max, 0), 1);
+        }
+    }
+
+    /**
+     * Scale a controller speed input into a camera speed
+     * @param {number} speed : a number between -3 and +3 (fractional values are allowed)
+     *                       3 = high speed
+     *                       2 = medium speed
+     *                       1 = low speed
+     *                       0 = stop
+     * @return {number} return a camera speed value from -1 to +1 (fractional)
+     */
+    public apply(speed:number):number {
+        if(typeof speed !== 'number' || isNaN(speed)) return 0;
+
+        // normalize the input magnitude and apply the deadzone
+        let input = Math.min(Math.abs(speed) / MAX_INPUT, 1);
+        if(input <= this.deadzone) return 0;
+        input = (input - this.deadzone) / (1 - this.deadzone);
+
+        // apply the response curve
+        let output:number;
+        if(this.curve === SpeedCurve.LINEAR) {
+            output = input;
+        }
+        else if(this.curve === SpeedCurve.EXPONENTIAL) {
+            output = Math.pow(input, this.exponent);
+        }
+        else {
+            // interpolate between the default speed steps
+            let position = input * (SPEED_STEPS.length - 1);
+            let index = Math.min(Math.floor(position), SPEED_STEPS.length - 2);
+            output = SPEED_STEPS[index] + (position - index) * (SPEED_STEPS[index + 1] - SPEED_STEPS[index]);
+        }
+
+        return Math.sign(speed) * output * this.max;
+    }
+}
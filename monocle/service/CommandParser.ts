@@ -0,0 +1,186 @@
+/*
+ **********************************************************************
+ *             __  __  ___  _  _  ___   ___ _    ___
+ *            |  \/  |/ _ \| \| |/ _ \ / __| |  | __|
+ *            | |\/| | (_) | .` | (_) | (__| |__| _|
+ *            |_|  |_|\___/|_|\_|\___/ \___|____|___|
+ *
+ * -------------------------------------------------------------------
+ *                    MONOCLE GATEWAY SERVICE
+ * -------------------------------------------------------------------
+ *
+ *  The Monocle Gateway Service is a small service that you install
+ *  and run inside your network to order to facilitate communication
+ *  between the Monocle (cloud) platform and your cameras. This
+ *  service is required if you want to implement one of the PTZ
+ *  controllers included in the Monocle project. The Monocle Gateway
+ *  Service DOES NOT communicate ANY video or audio content to the
+ *  Internet. It's sole purpose is to provide camera control
+ *  integration for PTZ cameras.
+ *
+ * -------------------------------------------------------------------
+ *        COPYRIGHT SHADEBLUE, LLC @ 2018, ALL RIGHTS RESERVED
+ * -------------------------------------------------------------------
+ *
+ **********************************************************************
+ */
+
+
+'use strict';
+
+/**
+ * Create the error reported for a text command with an invalid syntax
+ * @param {string} command : command name
+ * @param {string} text : command received
+ * @return {Error}
+ */
+function invalid(command:string, text:string):Error{
+    return new Error("Invalid '" + command + "' command received from PTZ controller: " + text);
+}
+
+/**
+ * This class parses the text (protocol v1) commands sent by PTZ controllers
+ * over any transport (web-socket, TCP or UDP). Each command is converted to
+ * the equivalent JSON (protocol v2) request { type, ...parameters } so that
+ * it can be executed through the same path as the JSON requests. Requests
+ * that manage authentication and pairing have the additional types 'auth',
+ * 'pair', 'pairOpen', 'pairList', 'pairRevoke' and 'pairRole'.
+ */
+export class CommandParser{
+
+    /**
+     * Parse a text command received from a PTZ controller
+     * @param {string} text : command received (a single line)
+     * @return {any} request { type, ...parameters }
+     * @throws {Error} if the command is unknown or its syntax is invalid
+     */
+    public static parse(text:string):any{
+        // commands are case insensitive; preset names and tokens, tour names
+        // and controller tokens are case sensitive and taken from the raw text
+        let data = text.trim();
+        let command = data.toLowerCase();
+        let parts:Array<string>;
+
+        // AUTH:<TOKEN>
+        if(command.startsWith("auth:"))
+            return { type: "auth", token: data.slice("auth:".length).trim() };
+
+        // PAIR:OPEN, PAIR:LIST, PAIR:REVOKE:<ID> and PAIR:ROLE:<ID>:<ROLE>[:<CAMERA>,...]
+        if(command === "pair:open")
+            return { type: "pairOpen" };
+        if(command === "pair:list")
+            return { type: "pairList" };
+        if(command.startsWith("pair:revoke:"))
+            return { type: "pairRevoke", id: data.slice("pair:revoke:".length).trim() };
+        if(command.startsWith("pair:role:")){
+            parts = data.split(":");
+            let cameras = (parts.length > 4) ? parts.slice(4).join(":").split(",").map((c) => c.trim()).filter((c) => !!c) : undefined;
+            return { type: "pairRole", id: parts[2], role: parts[3], cameras: cameras };
+        }
+
+        // PAIR:<CODE>[:<NAME>]
+        if(command.startsWith("pair:")){
+            parts = data.split(":");
+            return { type: "pair", code: parts[1], name: parts.slice(2).join(":").trim() };
+        }
+
+        // STOP, HOME, HOME:SET and TOUR:STOP
+        if(command === "stop")
+            return { type: "stop" };
+        if(command === "home")
+            return { type: "home" };
+        if(command === "home:set")
+            return { type: "setHome" };
+        if(command === "tour:stop")
+            return { type: "tourStop" };
+
+        // PRESET:SET:<NAME>[:<TOKEN>]
+        if(command.startsWith("preset:set:")){
+            parts = data.split(":");
+            if(parts.length < 3 || !parts[2]) throw invalid("preset:set", data);
+            return { type: "setPreset", name: parts[2], token: parts[3] || undefined };
+        }
+
+        // PRESET:REMOVE:<TOKEN>
+        if(command.startsWith("preset:remove:")){
+            parts = data.split(":");
+            if(parts.length < 3 || !parts[2]) throw invalid("preset:remove", data);
+            return { type: "removePreset", token: parts[2] };
+        }
+
+        // TOUR:START:<NAME>
+        if(command.startsWith("tour:start:")){
+            let name = data.slice("tour:start:".length).trim();
+            if(!name) throw invalid("tour:start", data);
+            return { type: "tourStart", tour: name };
+        }
+
+        // TOUR:SET:<NAME>:<PRESET>[@<DWELL>[@<SPEED>]],...[:ONCE]
+        if(command.startsWith("tour:set:")){
+            parts = data.split(":");
+            if(parts.length < 4 || !parts[2] || !parts[3]) throw invalid("tour:set", data);
+            let steps = parts[3].split(",").map((step) => {
+                let values = step.split("@");
+                return {
+                    preset: values[0].trim(),
+                    dwell: (values.length > 1) ? parseFloat(values[1]) : undefined,
+                    speed: (values.length > 2) ? parseFloat(values[2]) : undefined
+                };
+            });
+            let loop = !(parts[4] && parts[4].toLowerCase() === "once");
+            return { type: "tourSet", tour: { name: parts[2], loop: loop, steps: steps } };
+        }
+
+        // TOUR:REMOVE:<NAME>
+        if(command.startsWith("tour:remove:")){
+            let name = data.slice("tour:remove:".length).trim();
+            if(!name) throw invalid("tour:remove", data);
+            return { type: "tourRemove", tour: name };
+        }
+
+        // CONTROL:TAKE and CONTROL:RELEASE
+        if(command === "control:take" || command === "control:release")
+            return { type: "control", action: command.slice("control:".length) };
+
+        // CAMERA:<UUID> (CAMERA:ACTIVE to follow the active camera)
+        if(command.startsWith("camera:")){
+            parts = command.split(":");
+            if(parts.length < 2 || !parts[1]) throw invalid("camera", data);
+            return { type: "camera", camera: parts[1] };
+        }
+
+        // PRESET:<TOKEN>, PRESET:#<SLOT> and PRESET:NAME=<TEXT>
+        if(command.startsWith("preset:")){
+            let token = data.slice("preset:".length).trim();
+            if(!token) throw invalid("preset", data);
+            return { type: "preset", preset: token };
+        }
+
+        // PTZ:<P#>:<T#>:<Z#> (speeds from -3 to +3; fractional values allowed),
+        // ABS:<P#>:<T#>:<Z#> (normalized position; an empty value keeps the current position)
+        // and REL:<P#>:<T#>:<Z#> (normalized translation)
+        let moves = { ptz: "ptz", abs: "absolute", rel: "relative" };
+        let move = command.slice(0, command.indexOf(":"));
+        if(Object.prototype.hasOwnProperty.call(moves, move)){
+            parts = command.split(":");
+            if(parts.length < 4) throw invalid(move, data);
+            return { type: moves[move], pan: parts[1], tilt: parts[2], zoom: parts[3] };
+        }
+
+        // NUDGE:<DIRECTION>:<MS>[:<SPEED>] (move for a limited time, then stop)
+        if(command.startsWith("nudge:")){
+            parts = command.split(":");
+            if(parts.length < 3 || !parts[1] || isNaN(parseFloat(parts[2]))) throw invalid("nudge", data);
+            return { type: "nudge", direction: parts[1], duration: parts[2], speed: parts[3] };
+        }
+
+        // PAN:<#>, TILT:<#> and ZOOM:<#>
+        if(command.startsWith("pan:") || command.startsWith("tilt:") || command.startsWith("zoom:")){
+            parts = command.split(":");
+            if(!parts[1]) throw invalid(parts[0], data);
+            return { type: parts[0], [parts[0]]: parts[1] };
+        }
+
+        throw new Error("Unknown command received from PTZ controller: " + data);
+    }
+}
@@ -0,0 +1,262 @@
+/*
+ **********************************************************************
+ *             __  __  ___  _  _  ___   ___ _    ___
+ *            |  \/  |/ _ \| \| |/ _ \ / __| |  | __|
+ *            | |\/| | (_) | .` | (_) | (__| |__| _|
+ *            |_|  |_|\___/|_|\_|\___/ \___|____|___|
+ *
+ * -------------------------------------------------------------------
+ *                    MONOCLE GATEWAY SERVICE
+ * -------------------------------------------------------------------
+ *
+ *  The Monocle Gateway Service is a small service that you install
+ *  and run inside your network to order to facilitate communication
+ *  between the Monocle (cloud) platform and your cameras. This
+ *  service is required if you want to implement one of the PTZ
+ *  controllers included in the Monocle project. The Monocle Gateway
+ *  Service DOES NOT communicate ANY video or audio content to the
+ *  Internet. It's sole purpose is to provide camera control
+ *  integration for PTZ cameras.
+ *
+ * -------------------------------------------------------------------
+ *        COPYRIGHT SHADEBLUE, LLC @ 2018, ALL RIGHTS RESERVED
+ * -------------------------------------------------------------------
+ *
+ **********************************************************************
+ */
+
+'use strict';
+
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import * as _ from 'underscore';
+import {ControllerIdentity} from "../";
+
+const path = require('path');
+const os = require('os');
+
+// a controller host may not pair (until the next pairing window) after this many invalid pairing attempts
+const MAX_PAIRING_FAILURES:number = 5;
+
+// Default Controller Authentication Options/Configuration
+const default_options = {
+    "controller-auth": false,                // require PTZ controllers to authenticate
+    "controller-secret": null,               // shared secret accepted from any PTZ controller
+    "controller-pairing-window": 300000,     // pairing codes are valid for 5 minutes
+    "controller-pairing-on-start": false,    // open a pairing window at startup (otherwise an admin opens it)
+    "controller-secret-role": "admin",       // role granted to controllers using the shared secret
+    "controller-default-role": "operator",   // role granted to newly paired controller devices
+    "controller-tokens-file": path.join(os.homedir(), ".monocle", "controllers.json")
+};
+
+/**
+ * Hash a token for storage and comparison
+ * @param {string} token
+ * @return {string} hex encoded SHA-256 hash
+ */
+function hash(token:string):string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * This class is responsible for authenticating PTZ controllers and for
+ * issuing, persisting and revoking per-device controller tokens. Device
+ * tokens are only stored as hashes in the controller tokens file.
+ */
+export class ControllerAuth{
+
+    protected readonly _options:any;
+    protected _devices:Array<any> = [];
+    protected _pairingCode:string = null;
+    protected _pairingExpires:number = 0;
+    protected _pairingFailures:Map<string, number> = new Map();
+
+    /**
+     * Default Constructor
+     */
+    public constructor(options?:any|undefined){
+
+        // apply provided options; merge with defaults
+        if(options)
+            this._options = _.defaults(options, default_options);
+        else
+            this._options = default_options;
+
+        this.load();
+    }
+
+    /**
+     * Returns true if PTZ controllers are required to authenticate
+     * @return {boolean}
+     */
+    public isEnabled():boolean{
+        return this._options["controller-auth"] === true || !!this._options["controller-secret"];
+    }
+
+    /**
+     * Returns true if a pairing window is opened when the gateway starts
+     * @return {boolean}
+     */
+    public isPairingOnStart():boolean{
+        return this._options["controller-pairing-on-start"] === true;
+    }
+
+    /**
+     * Authenticate a PTZ controller token; the token can either be the
+     * shared secret or a device token issued by pairing.
+     * @param {string} token
+     * @return {ControllerIdentity} the controller identity or null if the token is not valid
+     */
+    public authenticate(token:string):ControllerIdentity{
+        if(!token) return null;
+        let tokenHash = hash(token);
+
+        // compare against the shared secret
+        let secret:string = this._options["controller-secret"];
+        if(secret && crypto.timingSafeEqual(Buffer.from(hash(secret), 'hex'), Buffer.from(tokenHash, 'hex'))){
+            return new ControllerIdentity({
+                id: "secret",
+                name: "shared secret",
+                type: ControllerIdentity.SECRET,
+                role: this._options["controller-secret-role"]
+            });
+        }
+
+        // compare against the paired device tokens
+        let device = _.find(this._devices, (d:any) => d.hash === tokenHash);
+        return (device) ? new ControllerIdentity(device) : null;
+    }
+
+    /**
+     * Returns the identity used for PTZ controllers when authentication is
+     * disabled; such controllers are unrestricted.
+     * @return {ControllerIdentity}
+     */
+    public anonymous():ControllerIdentity{
+        return new ControllerIdentity({ id: "anonymous", name: "anonymous", type: ControllerIdentity.ANONYMOUS, role: ControllerIdentity.ADMIN });
+    }
+
+    /**
+     * Open a pairing window; a new pairing code is generated that can be used
+     * (once) by a PTZ controller to obtain a device token.
+     * @return {string} pairing code
+     */
+    public openPairing():string{
+        this._pairingCode = String(crypto.randomBytes(4).readUInt32BE(0) % 1000000);
+        while(this._pairingCode.length < 6) this._pairingCode = "0" + this._pairingCode;
+        this._pairingExpires = Date.now() + this._options["controller-pairing-window"];
+        this._pairingFailures.clear();
+        return this._pairingCode;
+    }
+
+    /**
+     * Returns the expiration time of the open pairing window (or 0 if no window is open)
+     * @return {number}
+     */
+    public pairingExpires():number{
+        return (this._pairingCode && Date.now() < this._pairingExpires) ? this._pairingExpires : 0;
+    }
+
+    /**
+     * Pair a new PTZ controller device using the current pairing code; a new
+     * device token is issued, persisted (as a hash) and returned to the caller.
+     * @param {string} code : pairing code
+     * @param {string} name : device name
+     * @param {string} host : address of the controller requesting to pair
+     * @return {any} { identity, token } or null if the pairing code is not valid
+     */
+    public pair(code:string, name:string, host:string):any{
+        if(!this._pairingCode || Date.now() >= this._pairingExpires)
+            return null;
+
+        // refuse hosts after repeated invalid attempts to guess the code; the
+        // pairing window stays open for the other controllers
+        let failures = this._pairingFailures.get(host) || 0;
+        if(failures >= MAX_PAIRING_FAILURES)
+            return null;
+        if(code !== this._pairingCode){
+            this._pairingFailures.set(host, failures + 1);
+            return null;
+        }
+
+        // pairing codes can only be used once
+        this._pairingCode = null;
+        this._pairingExpires = 0;
+
+        let token = crypto.randomBytes(24).toString('hex');
+        let device = {
+            id: crypto.randomBytes(4).toString('hex'),
+            name: name || "controller",
+            type: ControllerIdentity.DEVICE,
+            role: this._options["controller-default-role"],
+            cameras: [],
+            created: new Date(),
+            hash: hash(token)
+        };
+        this._devices.push(device);
+        this.save();
+        return { identity: new ControllerIdentity(device), token: token };
+    }
+
+    /**
+     * Revoke a paired PTZ controller device token
+     * @param {string} id : device identifier
+     * @return {boolean} true if the device was revoked
+     */
+    public revoke(id:string):boolean{
+        let count = this._devices.length;
+        this._devices = this._devices.filter((d) => d.id !== id);
+        if(this._devices.length === count) return false;
+        this.save();
+        return true;
+    }
+
+    /**
+     * Assign a role and (optionally) a camera restriction to a paired PTZ controller device
+     * @param {string} id : device identifier
+     * @param {string} role : viewer, operator or admin
+     * @param {Array<string>} cameras : camera uuids or names; an empty list grants access to all cameras
+     * @return {ControllerIdentity} the updated identity or null if the device or role is unknown
+     */
+    public assign(id:string, role:string, cameras?:Array<string>):ControllerIdentity{
+        let device = _.find(this._devices, (d:any) => d.id === id);
+        if(!device || !ControllerIdentity.isRole(role)) return null;
+        device.role = role.toLowerCase();
+        if(cameras) device.cameras = cameras;
+        this.save();
+        return new ControllerIdentity(device);
+    }
+
+    /**
+     * Returns the identities of all paired PTZ controller devices
+     * @return {Array<ControllerIdentity>}
+     */
+    public devices():Array<ControllerIdentity>{
+        return this._devices.map((d) => new ControllerIdentity(d));
+    }
+
+    /**
+     * Load the paired devices from the controller tokens file
+     */
+    protected load():void{
+        let file = this._options["controller-tokens-file"];
+        if(!file || !fs.existsSync(file)) return;
+        try {
+            this._devices = fs.readJsonSync(file).devices || [];
+        }
+        catch(err){
+            // start without paired devices; the file is rewritten when a controller pairs
+            console.error("Unable to load PTZ controller tokens file '" + file + "'; no controllers are paired.", err.message);
+            this._devices = [];
+        }
+    }
+
+    /**
+     * Save the paired devices to the controller tokens file
+     */
+    protected save():void{
+        let file = this._options["controller-tokens-file"];
+        if(file)
+            fs.outputJsonSync(file, { devices: this._devices }, { spaces: 2, mode: 0o600 });
+    }
+}
@@ -0,0 +1,370 @@
+/*
+ **********************************************************************
+ *             __  __  ___  _  _  ___   ___ _    ___
+ *            |  \/  |/ _ \| \| |/ _ \ / __| |  | __|
+ *            | |\/| | (_) | .` | (_) | (__| |__| _|
+ *            |_|  |_|\___/|_|\_|\___/ \___|____|___|
+ *
+ * -------------------------------------------------------------------
+ *                    MONOCLE GATEWAY SERVICE
+ * -------------------------------------------------------------------
+ *
+ *  The Monocle Gateway Service is a small service that you install
+ *  and run inside your network to order to facilitate communication
+ *  between the Monocle (cloud) platform and your cameras. This
+ *  service is required if you want to implement one of the PTZ
+ *  controllers included in the Monocle project. The Monocle Gateway
+ *  Service DOES NOT communicate ANY video or audio content to the
+ *  Internet. It's sole purpose is to provide camera control
+ *  integration for PTZ cameras.
+ *
+ * -------------------------------------------------------------------
+ *        COPYRIGHT SHADEBLUE, LLC @ 2018, ALL RIGHTS RESERVED
+ * -------------------------------------------------------------------
+ *
+ **********************************************************************
+ */
+
+'use strict';
+
+import {EventEmitter} from "events";
+import * as mqtt from 'mqtt';
+import * as _ from 'underscore';
+import {Camera, CameraStatus, ControllerIdentity} from "../";
+
+// Default MQTT Bridge Options/Configuration
+const default_options = {
+    "mqtt-url": null,                        // MQTT broker url (mqtt://host:1883); the bridge is disabled if not set
+    "mqtt-username": null,
+    "mqtt-password": null,
+    "mqtt-client-id": null,                  // defaults to a random client id
+    "mqtt-topic-prefix": "monocle",
+    "mqtt-role": "operator",                 // controller role granted to MQTT commands
+    "mqtt-discovery": true,                  // publish Home Assistant discovery payloads
+    "mqtt-discovery-prefix": "homeassistant",
+    "mqtt-reconnect-interval": 10000
+};
+
+// MQTT command topics (<prefix>/<camera>/<command>) and the command request type they map to
+const COMMAND_TOPICS = {
+    stop: "stop",
+    home: "home",
+    preset: "preset",
+    ptz: "ptz",
+    absolute: "absolute",
+    relative: "relative",
+    nudge: "nudge",
+    tour: "tourStart"
+};
+
+// the order of the values in a text (colon delimited) command payload
+const PAYLOAD_FIELDS = {
+    preset: ["preset"],
+    ptz: ["pan", "tilt", "zoom"],
+    absolute: ["pan", "tilt", "zoom"],
+    relative: ["pan", "tilt", "zoom"],
+    nudge: ["direction", "duration", "speed"],
+    tourStart: ["tour"]
+};
+
+/**
+ * Parse an MQTT command payload; the payload can either be a JSON object
+ * or the same colon delimited values used by the text controller protocol.
+ * @param {string} type : command request type
+ * @param {string} payload
+ * @return {any} command request parameters
+ */
+function parsePayload(type:string, payload:string):any{
+    payload = payload.trim();
+    if(payload.startsWith("{")){
+        try {
+            return JSON.parse(payload);
+        }
+        catch(err) {
+            return {};
+        }
+    }
+
+    // preset tokens and tour names may contain colons
+    let fields:Array<string> = PAYLOAD_FIELDS[type] || [];
+    let values = (fields.length === 1) ? [payload] : payload.split(":");
+    let params = {};
+    fields.forEach((field, index) => {
+        if(values[index] !== undefined && values[index] !== "") params[field] = values[index];
+    });
+    return params;
+}
+
+/**
+ * This class bridges the gateway to an MQTT broker. Commands published to the
+ * command topics are emitted as 'command' events (in the same form as the JSON
+ * controller protocol requests) and the camera state is published to retained
+ * state topics. Home Assistant discovery payloads are published for each camera.
+ *
+ *   <prefix>/<camera>/stop|home|preset|ptz|absolute|relative|nudge|tour   command topics
+ *   <prefix>/status                                                       online/offline (retained)
+ *   <prefix>/active                                                       active camera (retained)
+ *   <prefix>/<uuid>/camera|presets|position|availability                  camera state (retained)
+ *   <prefix>/<uuid>/error                                                 command errors
+ *
+ * The <camera> in a command topic can be the camera uuid, the camera name or 'active'.
+ * Retained command messages are ignored; the broker would replay them on every reconnect.
+ */
+export class MqttBridge extends EventEmitter{
+
+    protected readonly _options:any;
+    protected readonly _identity:ControllerIdentity;
+    protected _client:mqtt.MqttClient = null;
+    protected _camera:Camera = null;
+    protected _cameras:Array<Camera> = [];
+
+    /**
+     * Default Constructor
+     */
+    public constructor(options?:any|undefined){
+        super();
+
+        // apply provided options; merge with defaults
+        if(options)
+            this._options = _.defaults(options, default_options);
+        else
+            this._options = default_options;
+
+        // identity (and role) used for all commands received over MQTT
+        this._identity = new ControllerIdentity({
+            id: "mqtt",
+            name: "mqtt",
+            type: ControllerIdentity.MQTT,
+            role: this._options["mqtt-role"]
+        });
+    }
+
+    /**
+     * Returns true if an MQTT broker has been configured
+     * @return {boolean}
+     */
+    public isEnabled():boolean{
+        return !!this._options["mqtt-url"];
+    }
+
+    /**
+     * Returns the identity (and role) used for the commands received over MQTT
+     * @return {ControllerIdentity}
+     */
+    public identity():ControllerIdentity{
+        return this._identity;
+    }
+
+    /**
+     * Connect to the configured MQTT broker; the bridge reconnects automatically
+     */
+    public connect():void{
+        let self = this;
+        if(!self.isEnabled() || self._client) return;
+
+        let prefix = self._options["mqtt-topic-prefix"];
+        let options:any = {
+            reconnectPeriod: self._options["mqtt-reconnect-interval"],
+            will: { topic: prefix + "/status", payload: "offline", qos: 1, retain: true }
+        };
+        if(self._options["mqtt-client-id"]) options.clientId = self._options["mqtt-client-id"];
+        if(self._options["mqtt-username"]) options.username = self._options["mqtt-username"];
+        if(self._options["mqtt-password"]) options.password = self._options["mqtt-password"];
+
+        self._client = mqtt.connect(self._options["mqtt-url"], options);
+
+        self._client.on("connect", () => {
+            self._client.subscribe(prefix + "/+/+");
+            self.publish("status", "online");
+            self.publishAll();
+            self.emit("connected", self._options["mqtt-url"]);
+        });
+
+        self._client.on("message", (topic:string, payload:Buffer, packet:any) => {
+            self.receive(topic, payload.toString(), !!(packet && packet.retain));
+        });
+
+        self._client.on("close", () => {
+            self.emit("closed");
+        });
+
+        self._client.on("error", (err:Error) => {
+            self.emit("error", err);
+        });
+    }
+
+    /**
+     * Publish the offline status and disconnect from the MQTT broker
+     */
+    public close():void{
+        if(!this._client) return;
+        this.publish("status", "offline");
+        this._client.end();
+        this._client = null;
+    }
+
+    /**
+     * Call this method when the active camera has changed
+     * @param {Camera} camera
+     */
+    public updateActiveCamera(camera:Camera){
+        this._camera = camera; // update local reference
+        this.publish("active", JSON.stringify(camera.toDTO()));
+    }
+
+    /**
+     * Call this method when the set of cameras available for control has changed
+     * @param {Array<Camera>} cameras
+     */
+    public updateCameras(cameras:Array<Camera>){
+        let removed = this._cameras.filter((c) => !_.find(cameras, (camera:Camera) => camera.uuid === c.uuid));
+        this._cameras = cameras; // update local reference
+        removed.forEach((camera) => this.publish(camera.uuid + "/availability", "offline"));
+        cameras.forEach((camera) => this.publishCamera(camera));
+    }
+
+    /**
+     * Call this method when the details of a camera (such as its presets) have changed
+     * @param {Camera} camera
+     */
+    public updateCamera(camera:Camera){
+        this._cameras = this._cameras.map((c) => (c.uuid === camera.uuid) ? camera : c);
+        if(this._camera && this._camera.uuid === camera.uuid)
+            this.updateActiveCamera(camera);
+        this.publishCamera(camera);
+    }
+
+    /**
+     * Call this method when the PTZ position or movement status of a camera has changed
+     * @param {CameraStatus} status
+     */
+    public updateStatus(status:CameraStatus){
+        this.publish(status.uuid + "/position", JSON.stringify(status));
+    }
+
+    /**
+     * Handle a message received on a command topic
+     * @param {string} topic : <prefix>/<camera>/<command>
+     * @param {string} payload
+     * @param {boolean} retained : true if the message was retained by the broker
+     */
+    protected receive(topic:string, payload:string, retained:boolean){
+        let self = this;
+        let parts = topic.split("/");
+        let type = COMMAND_TOPICS[parts[parts.length - 1]];
+        if(!type) return; // state topics published by the bridge itself are ignored
+
+        // a retained command is a stale command replayed by the broker (on every reconnect)
+        if(retained) {
+            self.emit("error", new Error("Retained MQTT command ignored: " + topic));
+            return;
+        }
+
+        // the 'tour' topic starts a tour; an empty payload (or 'stop') stops the running tour
+        if(type === "tourStart" && (!payload.trim() || payload.trim().toLowerCase() === "stop"))
+            type = "tourStop";
+
+        // resolve the camera addressed by uuid or name; 'active' addresses the active camera
+        let target = parts[parts.length - 2];
+        let camera = _.find(self._cameras, (c:Camera) => (c.uuid && c.uuid.toLowerCase() === target.toLowerCase()) ||
+                                                           (c.name && c.name.toLowerCase() === target.toLowerCase()));
+        let message = _.extend(parsePayload(type, payload), { type: type });
+        if(target.toLowerCase() !== "active")
+            message.camera = (camera) ? camera.uuid : target;
+        else
+            camera = self._camera;
+
+        // presets can be recalled by name (as published by the Home Assistant preset selector)
+        if(type === "preset" && camera && message.preset){
+            let preset = _.find(camera.presets || [], (p:any) => p.token === message.preset || p.name === message.preset);
+            if(preset) message.preset = preset.token;
+        }
+
+        self.emit("command", message, (err?:any) => {
+            if(!err) return;
+            let uuid = (camera) ? camera.uuid : target;
+            self.publish(uuid + "/error", JSON.stringify({ command: type, error: (err instanceof Error) ? err.message : String(err) }), false);
+        });
+    }
+
+    /**
+     * Publish the state (and discovery payloads) of all cameras
+     */
+    protected publishAll(){
+        if(this._camera) this.updateActiveCamera(this._camera);
+        this._cameras.forEach((camera) => this.publishCamera(camera));
+    }
+
+    /**
+     * Publish the state of a camera and its Home Assistant discovery payloads
+     * @param {Camera} camera
+     */
+    protected publishCamera(camera:Camera){
+        if(!camera.uuid) return;
+        this.publish(camera.uuid + "/camera", JSON.stringify(camera.toDTO()));
+        this.publish(camera.uuid + "/presets", JSON.stringify(camera.presets || []));
+        this.publish(camera.uuid + "/availability", "online");
+        if(this._options["mqtt-discovery"])
+            this.publishDiscovery(camera);
+    }
+
+    /**
+     * Publish the Home Assistant discovery payloads for a camera; the camera is
+     * represented as a device with stop and home buttons, a preset selector and
+     * a movement status sensor.
+     * @param {Camera} camera
+     */
+    protected publishDiscovery(camera:Camera){
+        if(!this._client) return;
+        let prefix = this._options["mqtt-topic-prefix"];
+        let discovery = this._options["mqtt-discovery-prefix"];
+        let id = "monocle_" + camera.uuid.replace(/[^a-zA-Z0-9_-]/g, "_");
+        let topic = prefix + "/" + camera.uuid;
+        let name = camera.name || camera.uuid;
+        let common = {
+            availability_topic: topic + "/availability",
+            device: {
+                identifiers: [id],
+                name: name,
+                manufacturer: camera.manufacturer,
+                model: camera.model,
+                sw_version: camera.firmwareVersion
+            }
+        };
+
+        let entities = [
+            { component: "button", object: "stop", config: { name: name + " Stop", command_topic: topic + "/stop" } },
+            { component: "button", object: "home", config: { name: name + " Home", command_topic: topic + "/home" } },
+            { component: "select", object: "preset", config: {
+                name: name + " Preset",
+                command_topic: topic + "/preset",
+                options: (camera.presets || []).map((p) => p.name || p.token),
+                optimistic: true
+            }},
+            { component: "sensor", object: "move_status", config: {
+                name: name + " Move Status",
+                state_topic: topic + "/position",
+                value_template: "{{ value_json.moveStatus }}"
+            }}
+        ];
+
+        entities.forEach((entity) => {
+            // a select entity requires at least one option
+            let empty = entity.component === "select" && entity.config["options"].length === 0;
+            let config = _.extend({ unique_id: id + "_" + entity.object }, common, entity.config);
+            this._client.publish(discovery + "/" + entity.component + "/" + id + "/" + entity.object + "/config",
+                                 (empty) ? "" : JSON.stringify(config), { qos: 1, retain: true });
+        });
+    }
+
+    /**
+     * Publish a message to a topic under the topic prefix (if connected)
+     * @param {string} topic : topic relative to the topic prefix
+     * @param {string} payload
+     * @param {boolean} retain : (default true)
+     */
+    protected publish(topic:string, payload:string, retain:boolean = true){
+        if(!this._client || !this._client.connected) return;
+        this._client.publish(this._options["mqtt-topic-prefix"] + "/" + topic, payload, { qos: 1, retain: retain });
+    }
+}
@@ -0,0 +1,356 @@
+/*
+ **********************************************************************
+ *             __  __  ___  _  _  ___   ___ _    ___
+ *            |  \/  |/ _ \| \| |/ _ \ / __| |  | __|
+ *            | |\/| | (_) | .` | (_) | (__| |__| _|
+ *            |_|  |_|\___/|_|\_|\___/ \___|____|___|
+ *
+ * -------------------------------------------------------------------
+ *                    MONOCLE GATEWAY SERVICE
+ * -------------------------------------------------------------------
+ *
+ *  The Monocle Gateway Service is a small service that you install
+ *  and run inside your network to order to facilitate communication
+ *  between the Monocle (cloud) platform and your cameras. This
+ *  service is required if you want to implement one of the PTZ
+ *  controllers included in the Monocle project. The Monocle Gateway
+ *  Service DOES NOT communicate ANY video or audio content to the
+ *  Internet. It's sole purpose is to provide camera control
+ *  integration for PTZ cameras.
+ *
+ * -------------------------------------------------------------------
+ *        COPYRIGHT SHADEBLUE, LLC @ 2018, ALL RIGHTS RESERVED
+ * -------------------------------------------------------------------
+ *
+ **********************************************************************
+ */
+
+'use strict';
+
+import {EventEmitter} from "events";
+import * as http from 'http';
+import * as Onvif from 'node-onvif';
+import * as _ from 'underscore';
+import {SimulatedCamera} from "../";
+
+// Default ONVIF Simulator Options/Configuration
+const default_options = {
+    "onvif-simulator-port": null,            // HTTP port of the simulated ONVIF camera; the simulator is disabled if not set
+    "onvif-simulator-host": "127.0.0.1",     // address the simulated ONVIF camera listens on
+    "onvif-simulator-path": "/onvif/device_service"
+};
+
+// tokens of the single media profile and PTZ configuration of the simulated camera
+const PROFILE_TOKEN:string = "simulated_profile";
+const PTZ_CONFIGURATION_TOKEN:string = "simulated_ptz";
+
+// largest SOAP request body accepted
+const MAX_BODY_SIZE:number = 64 * 1024;
+
+// the SOAP parser of the 'node-onvif' library (element names without namespace prefixes)
+const soap:any = Onvif._OnvifSoap;
+
+/**
+ * Returns the numeric value of an XML attribute of a parsed SOAP element
+ * @param element : parsed element (e.g. <tt:PanTilt x="0.5" y="0"/>)
+ * @param {string} attribute
+ * @return {number} value or undefined if the element or attribute is missing
+ */
+function attribute(element:any, attribute:string):number {
+    if(!element || !element.$ || element.$[attribute] === undefined) return undefined;
+    let value = parseFloat(element.$[attribute]);
+    return isNaN(value) ? undefined : value;
+}
+
+/**
+ * Returns the text of a parsed SOAP element
+ * @param element
+ * @return {string}
+ */
+function text(element:any):string {
+    if(element === undefined || element === null) return null;
+    return (typeof element === 'object') ? element._ : String(element);
+}
+
+/**
+ * Returns the XML of a generic ONVIF coordinate space
+ * @param {string} tag : space element name
+ * @param {string} uri : space URI
+ * @param {number} min : lowest X (and Y) value
+ * @param {boolean} y : true if the space has a Y range
+ * @return {string}
+ */
+function space(tag:string, uri:string, min:number, y:boolean):string {
+    let range = (axis:string) => "<tt:" + axis + "><tt:Min>" + min + "</tt:Min><tt:Max>1</tt:Max></tt:" + axis + ">";
+    return "<tt:" + tag + "><tt:URI>" + uri + "</tt:URI>" + range("XRange") + ((y) ? range("YRange") : "") + "</tt:" + tag + ">";
+}
+
+/**
+ * This service runs a simulated PTZ camera as an ONVIF device on a local
+ * HTTP port, so that the ONVIF camera driver (and everything built on the
+ * camera controller) can be tested end-to-end without hardware. A single
+ * device service address serves the device, media and PTZ services; the
+ * simulated camera advertises the generic ONVIF coordinate spaces, keeps
+ * its presets in memory and accepts any credentials. Point a camera at
+ * the simulator with its 'onvif-xaddr' setting.
+ */
+export class OnvifSimulator extends EventEmitter{
+
+    protected readonly _options:any;
+    protected readonly _camera:SimulatedCamera;
+    protected _server:http.Server = null;
+
+    /**
+     * Default Constructor
+     */
+    public constructor(options?:any|undefined){
+        super();
+
+        // apply provided options; merge with defaults
+        if(options)
+            this._options = _.defaults(options, default_options);
+        else
+            this._options = default_options;
+
+        this._camera = new SimulatedCamera(this._options);
+    }
+
+    /**
+     * Returns true if a simulator port is configured
+     * @return {boolean}
+     */
+    public isEnabled():boolean{
+        return !!this._options["onvif-simulator-port"];
+    }
+
+    /**
+     * Returns the simulated camera
+     * @return {SimulatedCamera}
+     */
+    public camera():SimulatedCamera{
+        return this._camera;
+    }
+
+    /**
+     * Returns the ONVIF device service address of the simulator
+     * @return {string}
+     */
+    public xaddr():string{
+        let port = (this._server && this._server.address()) ? (this._server.address() as any).port : this._options["onvif-simulator-port"];
+        return "http://" + this._options["onvif-simulator-host"] + ":" + port + this._options["onvif-simulator-path"];
+    }
+
+    /**
+     * Start listening for ONVIF requests (if the simulator is enabled)
+     * @return {Promise<string>} return promise with the device service address
+     */
+    public listen():Promise<string>{
+        let self = this;
+        if(!self.isEnabled()) return Promise.resolve(null);
+        if(self._server) return Promise.resolve(self.xaddr());
+
+        return new Promise<string>((resolve, reject) => {
+            let server = http.createServer((request, response) => self.serve(request, response));
+            server.once('error', reject);
+            server.listen(self._options["onvif-simulator-port"], self._options["onvif-simulator-host"], () => {
+                server.removeListener('error', reject);
+                server.on('error', (err) => self.emit("error", err));
+                self._server = server;
+                self.emit("listening", self.xaddr());
+                resolve(self.xaddr());
+            });
+        });
+    }
+
+    /**
+     * Stop listening for ONVIF requests
+     */
+    public close():void{
+        if(this._server) this._server.close();
+        this._server = null;
+    }
+
+    /**
+     * Handle an ONVIF SOAP request
+     * @param {http.IncomingMessage} request
+     * @param {http.ServerResponse} response
+     */
+    protected serve(request:http.IncomingMessage, response:http.ServerResponse):void{
+        let self = this;
+        let body = "";
+
+        if(request.method !== "POST" || request.url.split("?")[0] !== self._options["onvif-simulator-path"]) {
+            self.respond(response, 404, self.fault("Sender", "Not found: " + request.method + " " + request.url));
+            return;
+        }
+
+        request.setEncoding("utf8");
+        request.on("data", (chunk) => {
+            body += chunk;
+            if(body.length > MAX_BODY_SIZE) {
+                self.respond(response, 413, self.fault("Sender", "Request body is too large"));
+                request.destroy();
+            }
+        });
+        request.on("end", () => {
+            soap.parse(body).then((envelope) => {
+                let elements = (envelope && envelope.Body) ? envelope.Body : {};
+                let action = _.find(Object.keys(elements), (key) => key !== "$");
+                if(!action) throw new Error("Missing SOAP request body");
+                self.respond(response, 200, self.envelope(self.perform(action, elements[action] || {})));
+            }).catch((err) => {
+                self.respond(response, 400, self.fault("Sender", err.message));
+            });
+        });
+    }
+
+    /**
+     * Perform an ONVIF request on the simulated camera
+     * @param {string} action : request element name
+     * @param request : parsed request element
+     * @return {string} response body XML
+     * @throws {Error} if the request is not supported or fails
+     */
+    protected perform(action:string, request:any):string{
+        let camera = this._camera;
+        let speed = (element:any) => (element) ? attribute(element.PanTilt, "x") : undefined;
+
+        switch(action) {
+
+            // device service
+            case "GetSystemDateAndTime": {
+                let now = new Date();
+                return "<tds:GetSystemDateAndTimeResponse><tds:SystemDateAndTime>" +
+                       "<tt:DateTimeType>NTP</tt:DateTimeType><tt:DaylightSavings>false</tt:DaylightSavings>" +
+                       "<tt:UTCDateTime>" +
+                       "<tt:Time><tt:Hour>" + now.getUTCHours() + "</tt:Hour><tt:Minute>" + now.getUTCMinutes() + "</tt:Minute><tt:Second>" + now.getUTCSeconds() + "</tt:Second></tt:Time>" +
+                       "<tt:Date><tt:Year>" + now.getUTCFullYear() + "</tt:Year><tt:Month>" + (now.getUTCMonth() + 1) + "</tt:Month><tt:Day>" + now.getUTCDate() + "</tt:Day></tt:Date>" +
+                       "</tt:UTCDateTime></tds:SystemDateAndTime></tds:GetSystemDateAndTimeResponse>";
+            }
+            case "GetCapabilities": {
+                let xaddr = _.escape(this.xaddr());
+                return "<tds:GetCapabilitiesResponse><tds:Capabilities>" +
+                       "<tt:Device><tt:XAddr>" + xaddr + "</tt:XAddr></tt:Device>" +
+                       "<tt:Media><tt:XAddr>" + xaddr + "</tt:XAddr></tt:Media>" +
+                       "<tt:PTZ><tt:XAddr>" + xaddr + "</tt:XAddr></tt:PTZ>" +
+                       "</tds:Capabilities></tds:GetCapabilitiesResponse>";
+            }
+            case "GetDeviceInformation":
+                return "<tds:GetDeviceInformationResponse>" +
+                       "<tds:Manufacturer>Monocle</tds:Manufacturer><tds:Model>Simulated ONVIF PTZ Camera</tds:Model>" +
+                       "<tds:FirmwareVersion>1.0</tds:FirmwareVersion><tds:SerialNumber>SIMULATOR</tds:SerialNumber>" +
+                       "<tds:HardwareId>SIMULATOR</tds:HardwareId></tds:GetDeviceInformationResponse>";
+
+            // media service
+            case "GetProfiles":
+                return "<trt:GetProfilesResponse><trt:Profiles token=\"" + PROFILE_TOKEN + "\" fixed=\"true\">" +
+                       "<tt:Name>Simulated</tt:Name>" +
+                       "<tt:PTZConfiguration token=\"" + PTZ_CONFIGURATION_TOKEN + "\"><tt:Name>Simulated PTZ</tt:Name></tt:PTZConfiguration>" +
+                       "</trt:Profiles></trt:GetProfilesResponse>";
+
+            // PTZ service
+            case "GetConfigurationOptions":
+                return "<tptz:GetConfigurationOptionsResponse><tptz:PTZConfigurationOptions><tt:Spaces>" +
+                       space("AbsolutePanTiltPositionSpace", "http://www.onvif.org/ver10/tptz/PanTiltSpaces/PositionGenericSpace", -1, true) +
+                       space("AbsoluteZoomPositionSpace", "http://www.onvif.org/ver10/tptz/ZoomSpaces/PositionGenericSpace", 0, false) +
+                       space("RelativePanTiltTranslationSpace", "http://www.onvif.org/ver10/tptz/PanTiltSpaces/TranslationGenericSpace", -1, true) +
+                       space("RelativeZoomTranslationSpace", "http://www.onvif.org/ver10/tptz/ZoomSpaces/TranslationGenericSpace", -1, false) +
+                       space("ContinuousPanTiltVelocitySpace", "http://www.onvif.org/ver10/tptz/PanTiltSpaces/VelocityGenericSpace", -1, true) +
+                       space("ContinuousZoomVelocitySpace", "http://www.onvif.org/ver10/tptz/ZoomSpaces/VelocityGenericSpace", -1, false) +
+                       "</tt:Spaces></tptz:PTZConfigurationOptions></tptz:GetConfigurationOptionsResponse>";
+            case "ContinuousMove": {
+                let velocity = request.Velocity || {};
+                let timeout = /PT([\d.]+)S/.exec(text(request.Timeout) || "");
+                camera.continuousMove(attribute(velocity.PanTilt, "x"), attribute(velocity.PanTilt, "y"),
+                                      attribute(velocity.Zoom, "x"), (timeout) ? parseFloat(timeout[1]) : undefined);
+                return "<tptz:ContinuousMoveResponse/>";
+            }
+            case "Stop":
+                camera.stop();
+                return "<tptz:StopResponse/>";
+            case "AbsoluteMove": {
+                let position = request.Position || {};
+                camera.absoluteMove(attribute(position.PanTilt, "x"), attribute(position.PanTilt, "y"),
+                                    attribute(position.Zoom, "x"), speed(request.Speed));
+                return "<tptz:AbsoluteMoveResponse/>";
+            }
+            case "RelativeMove": {
+                let translation = request.Translation || {};
+                camera.relativeMove(attribute(translation.PanTilt, "x"), attribute(translation.PanTilt, "y"),
+                                    attribute(translation.Zoom, "x"), speed(request.Speed));
+                return "<tptz:RelativeMoveResponse/>";
+            }
+            case "GotoHomePosition":
+                camera.gotoHome();
+                return "<tptz:GotoHomePositionResponse/>";
+            case "SetHomePosition":
+                camera.setHome();
+                return "<tptz:SetHomePositionResponse/>";
+            case "GetPresets":
+                return "<tptz:GetPresetsResponse>" +
+                       camera.presets().map((p) => "<tptz:Preset token=\"" + _.escape(p.token) + "\"><tt:Name>" + _.escape(p.name) + "</tt:Name></tptz:Preset>").join("") +
+                       "</tptz:GetPresetsResponse>";
+            case "GotoPreset":
+                camera.gotoPreset(text(request.PresetToken), speed(request.Speed));
+                return "<tptz:GotoPresetResponse/>";
+            case "SetPreset": {
+                let token = camera.setPreset(text(request.PresetName) || "", text(request.PresetToken));
+                return "<tptz:SetPresetResponse><tptz:PresetToken>" + _.escape(token) + "</tptz:PresetToken></tptz:SetPresetResponse>";
+            }
+            case "RemovePreset":
+                camera.removePreset(text(request.PresetToken));
+                return "<tptz:RemovePresetResponse/>";
+            case "GetStatus": {
+                let status = camera.status();
+                let move = (status.moving) ? "MOVING" : "IDLE";
+                return "<tptz:GetStatusResponse><tptz:PTZStatus>" +
+                       "<tt:Position><tt:PanTilt x=\"" + status.pan + "\" y=\"" + status.tilt + "\"/><tt:Zoom x=\"" + status.zoom + "\"/></tt:Position>" +
+                       "<tt:MoveStatus><tt:PanTilt>" + move + "</tt:PanTilt><tt:Zoom>" + move + "</tt:Zoom></tt:MoveStatus>" +
+                       "<tt:UtcTime>" + new Date().toISOString() + "</tt:UtcTime>" +
+                       "</tptz:PTZStatus></tptz:GetStatusResponse>";
+            }
+        }
+        throw new Error("Action not supported by the ONVIF simulator: " + action);
+    }
+
+    /**
+     * Wrap a response body in a SOAP envelope
+     * @param {string} body
+     * @return {string}
+     */
+    protected envelope(body:string):string{
+        return "<?xml version=\"1.0\" encoding=\"UTF-8\"?>" +
+               "<env:Envelope xmlns:env=\"http://www.w3.org/2003/05/soap-envelope\"" +
+               " xmlns:tt=\"http://www.onvif.org/ver10/schema\"" +
+               " xmlns:tds=\"http://www.onvif.org/ver10/device/wsdl\"" +
+               " xmlns:trt=\"http://www.onvif.org/ver10/media/wsdl\"" +
+               " xmlns:tptz=\"http://www.onvif.org/ver20/ptz/wsdl\">" +
+               "<env:Body>" + body + "</env:Body></env:Envelope>";
+    }
+
+    /**
+     * Build a SOAP fault
+     * @param {string} code : 'Sender' or 'Receiver'
+     * @param {string} reason
+     * @return {string} SOAP envelope XML
+     */
+    protected fault(code:string, reason:string):string{
+        return this.envelope("<env:Fault><env:Code><env:Value>env:" + code + "</env:Value></env:Code>" +
+                             "<env:Reason><env:Text xml:lang=\"en\">" + _.escape(reason) + "</env:Text></env:Reason></env:Fault>");
+    }
+
+    /**
+     * Send a SOAP response
+     * @param {http.ServerResponse} response
+     * @param {number} status : HTTP status code
+     * @param {string} xml
+     */
+    protected respond(response:http.ServerResponse, status:number, xml:string):void{
+        if(response.finished) return;
+        response.writeHead(status, {
+            "Content-Type": "application/soap+xml; charset=utf-8",
+            "Content-Length": Buffer.byteLength(xml)
+        });
+        response.end(xml);
+    }
+}
@@ -0,0 +1,144 @@
+/*
+ **********************************************************************
+ *             __  __  ___  _  _  ___   ___ _    ___
+ *            |  \/  |/ _ \| \| |/ _ \ / __| |  | __|
+ *            | |\/| | (_) | .` | (_) | (__| |__| _|
+ *            |_|  |_|\___/|_|\_|\___/ \___|____|___|
+ *
+ * -------------------------------------------------------------------
+ *                    MONOCLE GATEWAY SERVICE
+ * -------------------------------------------------------------------
+ *
+ *  The Monocle Gateway Service is a small service that you install
+ *  and run inside your network to order to facilitate communication
+ *  between the Monocle (cloud) platform and your cameras. This
+ *  service is required if you want to implement one of the PTZ
+ *  controllers included in the Monocle project. The Monocle Gateway
+ *  Service DOES NOT communicate ANY video or audio content to the
+ *  Internet. It's sole purpose is to provide camera control
+ *  integration for PTZ cameras.
+ *
+ * -------------------------------------------------------------------
+ *        COPYRIGHT SHADEBLUE, LLC @ 2018, ALL RIGHTS RESERVED
+ * -------------------------------------------------------------------
+ *
+ **********************************************************************
+ */
+
+
+'use strict';
+
+// OSC bundle header
+const BUNDLE = "#bundle";
+
+/**
+ * Returns the size of an OSC string (including the terminating null) padded to a multiple of 4 bytes
+ * @param {number} length : string length in bytes
+ * @return {number}
+ */
+function padded(length:number):number{
+    return (length + 4) & ~3;
+}
+
+/**
+ * This class encodes and decodes OSC (Open Sound Control 1.0) packets. Decoded
+ * messages are returned as { address, args }; bundles are flattened into the
+ * messages they contain (time tags are ignored). The argument types i, f, s, b,
+ * h, d, T, F, N and I are supported.
+ */
+export class OscCodec{
+
+    /**
+     * Decode an OSC packet (message or bundle)
+     * @param {Buffer} data
+     * @return {Array<any>} messages { address, args }
+     * @throws {Error} if the packet is malformed
+     */
+    public static decode(data:Buffer):Array<any>{
+        let offset = 0;
+
+        let readString = ():string => {
+            let end = data.indexOf(0, offset);
+            if(end < 0) throw new Error("Malformed OSC packet; unterminated string");
+            let value = data.toString("utf8", offset, end);
+            offset += padded(end - offset);
+            return value;
+        };
+
+        let check = (size:number) => {
+            if(offset + size > data.length) throw new Error("Malformed OSC packet; truncated argument");
+        };
+
+        // a bundle contains size prefixed elements, each of which is a message or another bundle
+        if(data.length >= 16 && data.toString("utf8", 0, BUNDLE.length) === BUNDLE && data[BUNDLE.length] === 0){
+            let messages = [];
+            offset = 16; // bundle header and time tag
+            while(offset + 4 <= data.length){
+                let size = data.readInt32BE(offset);
+                offset += 4;
+                if(size < 0 || offset + size > data.length) throw new Error("Malformed OSC bundle; invalid element size");
+                messages = messages.concat(OscCodec.decode(data.slice(offset, offset + size)));
+                offset += size;
+            }
+            return messages;
+        }
+
+        let address = readString();
+        if(!address.startsWith("/")) throw new Error("Malformed OSC packet; invalid address: " + address);
+
+        // the type tag string is optional in very old implementations
+        let tags = (offset < data.length) ? readString() : ",";
+        let args = [];
+        for(let tag of tags.slice(1)){
+            switch(tag){
+                case "i": check(4); args.push(data.readInt32BE(offset)); offset += 4; break;
+                case "f": check(4); args.push(data.readFloatBE(offset)); offset += 4; break;
+                case "h": check(8); args.push(data.readInt32BE(offset) * 4294967296 + data.readUInt32BE(offset + 4)); offset += 8; break;
+                case "d": check(8); args.push(data.readDoubleBE(offset)); offset += 8; break;
+                case "s": args.push(readString()); break;
+                case "b": {
+                    check(4);
+                    let size = data.readInt32BE(offset);
+                    offset += 4;
+                    check(size);
+                    args.push(data.slice(offset, offset + size));
+                    offset += (size + 3) & ~3;
+                    break;
+                }
+                case "T": args.push(true); break;
+                case "F": args.push(false); break;
+                case "N": args.push(null); break;
+                case "I": args.push(Infinity); break;
+                default: throw new Error("Unsupported OSC argument type: " + tag);
+            }
+        }
+        return [{ address: address, args: args }];
+    }
+
+    /**
+     * Encode an OSC message
+     * @param {string} address : OSC address pattern
+     * @param {string} types : argument types (i, f or s for each argument)
+     * @param {Array<any>} args : argument values
+     * @return {Buffer}
+     */
+    public static encode(address:string, types:string, args:Array<any>):Buffer{
+        let string = (value:string):Buffer => {
+            let text = Buffer.from(value, "utf8");
+            let buffer = Buffer.alloc(padded(text.length));
+            text.copy(buffer);
+            return buffer;
+        };
+
+        let parts = [string(address), string("," + types)];
+        types.split("").forEach((type, index) => {
+            let buffer = Buffer.alloc(4);
+            if(type === "i") buffer.writeInt32BE(Math.round(Number(args[index]) || 0), 0);
+            else if(type === "f") buffer.writeFloatBE(Number(args[index]) || 0, 0);
+            else if(type === "s") buffer = string(String(args[index] === undefined || args[index] === null ? "" : args[index]));
+            else throw new Error("Unsupported OSC argument type: " + type);
+            parts.push(buffer);
+        });
+        return Buffer.concat(parts);
+    }
+}
@@ -29,16 +29,224 @@
 'use strict';
 
 import {EventEmitter} from "events";
+import * as http from 'http';
+import * as net from 'net';
+import * as dgram from 'dgram';
 import WebSocket = require('ws');
 import * as _ from 'underscore';
-import {Camera, CameraSource} from "../";
+import * as querystring from 'querystring';
+import {Camera, CameraSource, CameraStatus, CommandParser, ControllerAuth, ControllerIdentity, OscCodec, PresetTour} from "../";
 
 // Default Options
 const default_options = {
     "service-port": 8080,
+    "controller-auth-timeout": 5000,   // unauthenticated controllers are closed after 5 seconds
+    "control-lease-time": 5000,        // camera control is released 5 seconds after the last command
+    "controller-heartbeat-interval": 5000, // controllers that miss a heartbeat ping are disconnected
+    "remote-move-timeout": 5000,       // cameras moved through the HTTP API or MQTT are stopped 5 seconds after the last command
+    "controller-priority": {},         // control priority by controller id or name (default 0)
+    "controller-tcp-port": null,       // TCP port for line based PTZ controllers (disabled if not set)
+    "controller-udp-port": null,       // UDP port for line based PTZ controllers (disabled if not set)
+    "controller-udp-session-timeout": 60000, // UDP controllers are forgotten (and must authenticate again) after 60 seconds of silence
+    "osc-port": null,                  // UDP port for OSC (Open Sound Control) messages (disabled if not set)
+    "osc-address-prefix": "/monocle",  // OSC address prefix of the gateway commands
+    "osc-role": "operator",            // controller role granted to OSC commands
+    "osc-cameras": [],                 // cameras (by uuid or name) OSC commands may address and feedback is sent for (default all)
+    "osc-allowed-hosts": [],           // console addresses permitted to send OSC commands; required when controllers must authenticate
+    "osc-feedback-host": null,         // host to send OSC feedback (position and active camera) to (disabled if not set)
+    "osc-feedback-port": 9000,
     perMessageDeflate: false
 };
 
+// web-socket close code used when a controller fails to authenticate
+const UNAUTHORIZED = 4001;
+
+// maximum size of an HTTP API request body
+const MAX_BODY_SIZE = 65536;
+
+// maximum length of a command line received from a TCP controller
+const MAX_LINE_LENGTH = 4096;
+
+// minimum controller role required to emit each command event
+const COMMAND_ROLES = {
+    camera: "viewer",
+    stop: "operator",
+    home: "operator",
+    preset: "operator",
+    ptz: "operator",
+    pan: "operator",
+    tilt: "operator",
+    zoom: "operator",
+    absolute: "operator",
+    relative: "operator",
+    nudge: "operator",
+    tourStart: "operator",
+    tourStop: "operator",
+    setHome: "admin",
+    setPreset: "admin",
+    removePreset: "admin",
+    tourSet: "admin",
+    tourRemove: "admin"
+};
+
+// commands that are not addressed to a camera
+const GLOBAL_COMMANDS = ["tourSet", "tourRemove"];
+
+// commands that require control of the target camera; all of these except 'stop'
+// take (or extend) the control lease on the camera for the issuing controller
+const LEASED_COMMANDS = ["stop", "home", "preset", "ptz", "pan", "tilt", "zoom", "absolute", "relative", "nudge", "tourStart"];
+
+// continuous movement commands; the controller that starts a continuous move is
+// tracked so that the camera can be stopped if the controller goes away
+const CONTINUOUS_COMMANDS = ["ptz", "pan", "tilt", "zoom"];
+
+// highest PTZ controller protocol version supported; version 1 is the
+// text protocol, version 2 is the JSON protocol with acknowledgements
+const PROTOCOL_VERSION = 2;
+
+/**
+ * Send a message object to a PTZ controller if its connection is open
+ * @param ws : PTZ controller web-socket
+ * @param data (object)
+ */
+function send(ws:any, data:any){
+    if(ws.readyState === WebSocket.OPEN)
+        ws.send(JSON.stringify(data));
+}
+
+/**
+ * Create a PTZ controller client for a line based transport (TCP or UDP); the
+ * client provides the subset of the web-socket interface used to send messages
+ * to PTZ controllers and each message is sent as a single line of JSON text.
+ * @param {string} address : client address reported in events
+ * @param {(text:string)=>void} write : write a line of text to the controller
+ * @param {()=>void} end : close the connection to the controller
+ * @return {any} PTZ controller client
+ */
+function lineClient(address:string, write:(text:string)=>void, end:()=>void):any{
+    let client:any = {
+        _remoteAddress: address,
+        readyState: WebSocket.OPEN,
+        send: (text:string) => write(text + "\n"),
+        close: () => {
+            if(client.readyState !== WebSocket.OPEN) return;
+            client.readyState = WebSocket.CLOSED;
+            end();
+        }
+    };
+    return client;
+}
+
+/**
+ * Convert an OSC message into the equivalent JSON (protocol v2) request. Button
+ * style commands (stop, home and tour/stop) ignore a zero argument since consoles
+ * send a non-zero value when the button is pressed and zero when it is released.
+ *
+ *   stop | home | tour/stop            [pressed]
+ *   ptz | abs | rel                    f f f (pan, tilt, zoom)
+ *   pan | tilt | zoom                  f
+ *   preset                             s (token, #<slot> or name=<text>) or i (slot)
+ *   nudge                              s i [f] (direction, milliseconds, speed)
+ *   tour/start                         s (tour name)
+ *   camera                             s (camera uuid or 'active')
+ *
+ * @param {string} command : OSC address without the address prefix
+ * @param {Array<any>} args : OSC arguments
+ * @return {any} request { type, ...parameters }, null for a button release or undefined if the command is unknown
+ */
+function oscRequest(command:string, args:Array<any>):any{
+    let number = (index:number):number => (typeof args[index] === 'number') ? args[index] : parseFloat(args[index]);
+    let pressed = args.length === 0 || (args[0] !== 0 && args[0] !== false);
+
+    switch(command.toLowerCase()){
+        case "stop":
+        case "home":
+            return (pressed) ? { type: command.toLowerCase() } : null;
+        case "tour/stop":
+            return (pressed) ? { type: "tourStop" } : null;
+        case "ptz":
+            return { type: "ptz", pan: number(0), tilt: number(1), zoom: number(2) };
+        case "abs":
+            return { type: "absolute", pan: number(0), tilt: number(1), zoom: number(2) };
+        case "rel":
+            return { type: "relative", pan: number(0), tilt: number(1), zoom: number(2) };
+        case "pan":
+        case "tilt":
+        case "zoom":
+            return { type: command.toLowerCase(), [command.toLowerCase()]: number(0) };
+        case "preset":
+            return { type: "preset", preset: (typeof args[0] === 'number') ? "#" + Math.round(args[0]) : args[0] };
+        case "nudge":
+            return { type: "nudge", direction: args[0], duration: number(1), speed: (args.length > 2) ? number(2) : undefined };
+        case "tour/start":
+            return { type: "tourStart", tour: args[0] };
+        case "camera":
+            return { type: "camera", camera: args[0] };
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Get the authentication token provided by a PTZ controller in the connection
+ * request; either as a 'token' query parameter or as an 'Authorization: Bearer'
+ * or 'X-Monocle-Token' request header.
+ * @param request : HTTP upgrade request
+ * @return {string} token or null if no token was provided
+ */
+function requestToken(request:any):string{
+    let url:string = request.url || "";
+    let query = querystring.parse(url.indexOf("?") >= 0 ? url.slice(url.indexOf("?") + 1) : "");
+    if(query.token) return String(query.token);
+
+    let authorization:string = request.headers["authorization"];
+    if(authorization && authorization.toLowerCase().startsWith("bearer "))
+        return authorization.slice("bearer ".length).trim();
+
+    return request.headers["x-monocle-token"] || null;
+}
+
+/**
+ * Create an error carrying the HTTP status code to report to HTTP API clients
+ * @param {number} status : HTTP status code
+ * @param {string} message
+ * @return {Error}
+ */
+function failure(status:number, message:string):Error{
+    let error:any = new Error(message);
+    error.status = status;
+    return error;
+}
+
+/**
+ * Read and parse the JSON body of an HTTP API request; an empty body is parsed as an empty object
+ * @param request : HTTP request
+ * @return {Promise<any>}
+ */
+function readBody(request:any):Promise<any>{
+    return new Promise<any>((resolve, reject) => {
+        let body = "";
+        request.setEncoding("utf8");
+        request.on("data", (chunk:string) => {
+            body += chunk;
+            if(body.length > MAX_BODY_SIZE){
+                reject(failure(413, "Request body is too large"));
+                request.destroy();
+            }
+        });
+        request.on("end", () => {
+            if(!body.trim()) return resolve({});
+            try {
+                resolve(JSON.parse(body));
+            }
+            catch(err) {
+                reject(failure(400, "Invalid JSON request body: " + err.message));
+            }
+        });
+        request.on("error", reject);
+    });
+}
+
 /**
  * PTZControllerService
  * -------------------------
@@ -48,8 +256,24 @@ const default_options = {
 export class PTZControllerService extends EventEmitter{
 
     protected readonly _options:any;
+    protected readonly _server:http.Server;
     protected readonly _wss;
+    protected readonly _auth:ControllerAuth;
     protected _camera:Camera = null;
+    protected _cameras:Array<Camera> = [];
+    protected _status:Map<string, CameraStatus> = new Map();
+    protected _tours:Array<PresetTour> = [];
+    protected _leases:Map<string, any> = new Map();
+    protected _moves:Map<string, any> = new Map();
+    protected _heartbeat:any = null;
+    protected _remoteClients:Map<string, any> = new Map();
+    protected _tcp:net.Server = null;
+    protected _udp:dgram.Socket = null;
+    protected _lineClients:Set<any> = new Set();
+    protected _datagramClients:Map<string, any> = new Map();
+    protected _osc:dgram.Socket = null;
+    protected _oscIdentity:ControllerIdentity = null;
+    protected _oscCameras:Map<string, string> = new Map();
 
     /**
      * Call this method to broadcast a message object to all
@@ -57,7 +281,9 @@ export class PTZControllerService extends EventEmitter{
      * @param data (object)
      */
     broadcast(data:any){
-        this._wss.broadcast(data);
+        this.clients().forEach((client) => {
+            if(client._authorized) send(client, data);
+        });
     }
 
     /**
@@ -66,9 +292,134 @@ export class PTZControllerService extends EventEmitter{
      * @param {Camera} camera
      */
     updateActiveCamera(camera:Camera){
-        this._camera = camera; // update local reference
-        // broadcast the update to all PTZ controllers
-        this.broadcast({ source: this._camera.toDTO() });
+        let self = this;
+        self._camera = camera; // update local reference
+        // send the update to each PTZ controller following the active camera; controllers
+        // that selected a camera keep addressing (and displaying) their own selection
+        self.clients().forEach(function each(client) {
+            if(client._authorized && client._camera === undefined && self.accessible(client, camera))
+                send(client, { source: camera.toDTO() });
+        });
+        self.feedback("/active", "ss", [camera.uuid, camera.name], camera.uuid);
+    }
+
+    /**
+     * Open a pairing window for PTZ controllers; a 'pairing' event is
+     * emitted with the pairing code and the expiration time.
+     * @return {string} pairing code
+     */
+    openPairing():string{
+        let code = this._auth.openPairing();
+        this.emit("pairing", code, new Date(this._auth.pairingExpires()));
+        return code;
+    }
+
+    /**
+     * Returns true if PTZ controllers are required to authenticate
+     * @return {boolean}
+     */
+    isAuthEnabled():boolean{
+        return this._auth.isEnabled();
+    }
+
+    /**
+     * Returns true if a pairing window is opened when the gateway starts
+     * @return {boolean}
+     */
+    isPairingOnStart():boolean{
+        return this._auth.isPairingOnStart();
+    }
+
+    /**
+     * Submit a JSON (protocol v2) command request received from another transport
+     * (such as MQTT); the command is executed through the same dispatch path as the
+     * commands received from PTZ controllers.
+     * @param {string} source : name of the command source (reported as the client address)
+     * @param {ControllerIdentity} identity : identity (and role) of the command source
+     * @param message : request { type, camera, ...parameters }
+     * @param reply : (optional) callback invoked with the command error or result
+     */
+    submit(source:string, identity:ControllerIdentity, message:any, reply?:(err?:any, result?:any)=>void){
+        let client = this.remoteClient(source + ":" + identity.id, source, identity);
+        this.execute(client, message, reply || (()=>{}));
+    }
+
+    /**
+     * Call this method when the details of a camera (such as its presets)
+     * have changed and we need to update the PTZ controllers addressing it
+     * @param {Camera} camera
+     */
+    updateCamera(camera:Camera){
+        let self = this;
+
+        // update local references
+        self._cameras = self._cameras.map((c) => (c.uuid === camera.uuid) ? camera : c);
+        if(self._camera && self._camera.uuid === camera.uuid)
+            self._camera = camera;
+
+        // send the update to each PTZ controller addressing this camera
+        self.clients().forEach(function each(client) {
+            let target = client._camera || (self._camera ? self._camera.uuid : null);
+            if(client._authorized && target === camera.uuid && self.accessible(client, camera))
+                send(client, { source: camera.toDTO() });
+        });
+        self.sendCameras();
+    }
+
+    /**
+     * Call this method when the preset tour definitions have changed
+     * and we need to update all connected PTZ controllers
+     * @param {Array<PresetTour>} tours
+     */
+    updateTours(tours:Array<PresetTour>){
+        let self = this;
+        self._tours = tours; // update local reference
+        // send the update to each PTZ controller permitted to address at least one camera
+        self.clients().forEach(function each(client) {
+            if(client._authorized && self.touring(client))
+                send(client, { tours: self._tours });
+        });
+    }
+
+    /**
+     * Call this method when a preset tour has reported progress and we need
+     * to update the PTZ controllers permitted to address the touring camera
+     * @param progress : tour progress { camera, tour, state, step, steps, preset, error }
+     */
+    updateTour(progress:any){
+        let self = this;
+        self.clients().forEach(function each(client) {
+            if(client._authorized && self.accessible(client, progress.camera))
+                send(client, { tour: progress });
+        });
+    }
+
+    /**
+     * Call this method when the PTZ position or movement status of a camera
+     * has changed and we need to update all connected PTZ controllers
+     * @param {CameraStatus} status
+     */
+    updateStatus(status:CameraStatus){
+        let self = this;
+        self._status.set(status.uuid, status); // update local reference
+        // send the update to each PTZ controller permitted to address this camera
+        self.clients().forEach(function each(client) {
+            if(client._authorized && self.accessible(client, status.uuid))
+                send(client, { status: status });
+        });
+        self.feedback("/position", "sfff", [status.uuid, status.pan, status.tilt, status.zoom], status.uuid);
+        self.feedback("/moving", "si", [status.uuid, (status.moveStatus === CameraStatus.MOVING) ? 1 : 0], status.uuid);
+    }
+
+    /**
+     * Call this method when the set of cameras available for control has
+     * changed and we need to update all connected PTZ controllers
+     * @param {Array<Camera>} cameras
+     */
+    updateCameras(cameras:Array<Camera>){
+        this._cameras = cameras; // update local reference
+        // send the update to all PTZ controllers
+        this.sendCameras();
     }
 
     /**
@@ -77,14 +428,27 @@ export class PTZControllerService extends EventEmitter{
     public constructor(options?:any|undefined){
         super();
 
+        // 'remote-move-timeout' was named 'http-move-timeout' before it applied to MQTT commands
+        if(options && options["remote-move-timeout"] === undefined && options["http-move-timeout"] !== undefined)
+            options["remote-move-timeout"] = options["http-move-timeout"];
+
         // apply provided options; merge with defaults
         if(options)
             this._options = _.defaults(options, default_options);
         else
             this._options = default_options;
 
-        // start web-socket server
-        this._wss = new WebSocket.Server({ port: this._options["service-port"] }, ()=> {
+        // PTZ controller authentication and pairing
+        this._auth = new ControllerAuth(this._options);
+
+        // start HTTP server; the HTTP API and the web-socket server share the service port
+        this._server = http.createServer((request, response) => this.serve(request, response));
+        this._wss = new WebSocket.Server({ server: this._server });
+        this._server.on('error', (err) => this.emit("error", err));
+
+        // the web-socket server re-emits the errors of the HTTP server; they are reported above
+        this._wss.on('error', () => {});
+        this._server.listen(this._options["service-port"], ()=> {
             let self = this;
 
             /**
@@ -92,123 +456,22 @@ export class PTZControllerService extends EventEmitter{
              */
             this._wss.on('connection', function (ws, request) {
                 ws._remoteAddress = ws._socket.remoteAddress.toString();
-                self.emit("connected", ws._remoteAddress);
-
-                // once the client is connected, we should send the active camera source to it
-                if(self._camera)
-                    ws.send(JSON.stringify({ source: self._camera.toDTO() }));
+                ws._remoteHost = ws._remoteAddress;
+                ws.on('pong', () => ws._alive = true);
+                self.connect(ws, requestToken(request));
 
                 /**
                  * Listen for PTZ endpoint messages
                  */
                 ws.on('message', function incoming(data) {
-
-                    // decode the received command and emit the proper event
-                    let command:string = data.toString().toLowerCase();
-
-                    // handle STOP command
-                    if(command === "stop") {
-                        self.emit("stop", ws._remoteAddress);
-                        return;
-                    }
-
-                    // handle HOME command
-                    if(command === "home") {
-                        self.emit("home", ws._remoteAddress);
-                        return;
-                    }
-
-                    // handle PRESET:<#> command
-                    if(command.startsWith("preset:")){
-                        let parts = command.split(":");
-
-                        // validate command syntax
-                        if(!parts || parts.length < 2){
-                            self.emit("error", "Invalid 'preset' command received from PTZ controller: " + data);
-                            return;
-                        }
-
-                        // parse the value received and emit the preset event
-                        let token = parts[1];
-                        self.emit("preset", ws._remoteAddress, token);
-                        return;
-                    }
-
-                    // handle PTZ:<P#>:<T#>:<Z#> command
-                    if(command.startsWith("ptz:")){
-                        let parts = command.split(":");
-
-                        // validate command syntax
-                        if(!parts || parts.length < 4){
-                            self.emit("error", "Invalid 'preset' command received from PTZ controller: " + data);
-                            return;
-                        }
-
-                        // parse the PTZ values received and emit the ptz event
-                        let pan = parseInt(parts[1]);
-                        let tilt = parseInt(parts[2]);
-                        let zoom = parseInt(parts[3]);
-                        self.emit("ptz", ws._remoteAddress, pan, tilt, zoom);
-                        return;
-                    }
-
-                    // handle PAN:<#> command
-                    if(command.startsWith("pan:")){
-                        let parts = command.split(":");
-
-                        // validate command syntax
-                        if(!parts || parts.length < 2){
-                            self.emit("error", "Invalid 'pan' command received from PTZ controller: " + data);
-                            return;
-                        }
-
-                        // parse the value received and emit the pan event
-                        let pan = parseInt(parts[1]);
-                        self.emit("pan", ws._remoteAddress, pan);
-                        return;
-                    }
-
-                    // handle TILT:<#> command
-                    if(command.startsWith("tilt:")){
-                        let parts = command.split(":");
-
-                        // validate command syntax
-                        if(!parts || parts.length < 2){
-                            self.emit("error", "Invalid 'tilt' command received from PTZ controller: " + data);
-                            return;
-                        }
-
-                        // parse the value received and emit the tilt event
-                        let tilt = parseInt(parts[1]);
-                        self.emit("tilt", ws._remoteAddress, tilt);
-                        return;
-                    }
-
-                    // handle ZOOM:<#> command
-                    if(command.startsWith("zoom:")){
-                        let parts = command.split(":");
-
-                        // validate command syntax
-                        if(!parts || parts.length < 2){
-                            self.emit("error", "Invalid 'zoom' command received from PTZ controller: " + data);
-                            return;
-                        }
-
-                        // parse the value received and emit the zoom event
-                        let zoom = parseInt(parts[1]);
-                        self.emit("zoom", ws._remoteAddress, zoom);
-                        return;
-                    }
-
-                    // unknown command received
-                    self.emit("error", "Unknown command received from PTZ controller: " + data);
+                    self.receive(ws, data.toString());
                 });
 
                 /**
                  * Listen for client disconnections
                  */
                 ws.on('close', function () {
-                    self.emit("disconnected", ws._remoteAddress);
+                    self.disconnect(ws);
                 });
 
                 /**
@@ -221,14 +484,1104 @@ export class PTZControllerService extends EventEmitter{
         });
 
         /**
-         * This method will broadcast the message object
-         * to all connected PTZ controllers
-         * @param data (object)
+         * LISTEN FOR LOCAL CONNECTIONS FROM PTZ CONTROLLERS ON THE TCP PORT
+         */
+        if(this._options["controller-tcp-port"]){
+            this._tcp = net.createServer((socket) => this.accept(socket));
+            this._tcp.on('error', (err) => this.emit("error", err));
+            this._tcp.listen(this._options["controller-tcp-port"]);
+        }
+
+        /**
+         * LISTEN FOR COMMANDS FROM PTZ CONTROLLERS ON THE UDP PORT
+         */
+        if(this._options["controller-udp-port"]){
+            this._udp = dgram.createSocket("udp4");
+            this._udp.on('message', (data:Buffer, peer:any) => this.datagram(data, peer));
+            this._udp.on('error', (err) => this.emit("error", err));
+            this._udp.bind(this._options["controller-udp-port"]);
+        }
+
+        /**
+         * LISTEN FOR OSC MESSAGES FROM CONSOLES (AND SEND OSC FEEDBACK)
+         */
+        if(this._options["osc-port"] || this._options["osc-feedback-host"]){
+            this._oscIdentity = new ControllerIdentity({
+                id: "osc",
+                name: "osc",
+                type: ControllerIdentity.OSC,
+                role: this._options["osc-role"],
+                cameras: this._options["osc-cameras"]
+            });
+            this._osc = dgram.createSocket("udp4");
+            this._osc.on('message', (data:Buffer, peer:any) => this.osc(data, peer));
+            this._osc.on('error', (err) => this.emit("error", err));
+            if(this._options["osc-port"]) this._osc.bind(this._options["osc-port"]);
+        }
+
+        /**
+         * Ping all PTZ controllers periodically; a controller that has not responded
+         * (or sent any message) since the previous ping is disconnected.
          */
-        this._wss.broadcast = function broadcast(data:any) {
-            this.clients.forEach(function each(client) {
-                client.send(JSON.stringify(data));
+        this._heartbeat = setInterval(() => {
+            this._wss.clients.forEach((client) => {
+                if(!client._alive){
+                    this.emit("heartbeat", client._remoteAddress);
+                    client.terminate();
+                    return;
+                }
+                client._alive = false;
+                client.ping(() => {});
+            });
+        }, this._options["controller-heartbeat-interval"]);
+        this._heartbeat.unref();
+    }
+
+    /**
+     * Disconnect all PTZ controllers and stop listening for them
+     */
+    public close():void{
+        clearInterval(this._heartbeat);
+        this._remoteClients.forEach((client) => clearTimeout(client._timer));
+        this._wss.clients.forEach((client) => client.terminate());
+        this._wss.close();
+        this._server.close();
+        if(this._tcp) this._tcp.close();
+        if(this._udp) this._udp.close();
+        if(this._osc) this._osc.close();
+    }
+
+    /**
+     * Set up a newly connected PTZ controller (web-socket, TCP or UDP); if
+     * authentication is required, then the controller must provide a token in
+     * the connection request or send an 'auth:<token>' message before the
+     * authentication timeout expires.
+     * @param ws : PTZ controller web-socket (or line client)
+     * @param {string} token : (optional) token provided in the connection request
+     */
+    protected connect(ws:any, token?:string){
+        ws._camera = undefined; // the controller follows the active camera by default
+        ws._identity = this._auth.isEnabled() ? null : this._auth.anonymous();
+        ws._authorized = false;
+        ws._protocol = 1; // text protocol until a JSON 'hello' handshake is received
+        ws._alive = true;
+        this.emit("connected", ws._remoteAddress);
+
+        if(!this._auth.isEnabled()) {
+            this.welcome(ws);
+        }
+        else if(token) {
+            this.login(ws, token);
+        }
+        else {
+            ws._authTimer = setTimeout(() => {
+                if(!ws._authorized) this.reject(ws, "Authentication timeout");
+            }, this._options["controller-auth-timeout"]);
+        }
+    }
+
+    /**
+     * Clean up after a PTZ controller has disconnected; its control leases are
+     * released and any camera it left moving is stopped.
+     * @param ws : PTZ controller web-socket (or line client)
+     */
+    protected disconnect(ws:any){
+        if(ws._authTimer) clearTimeout(ws._authTimer);
+        this._leases.forEach((lease, camera) => this.release(camera, ws));
+        this.deadman(ws);
+        this.emit("disconnected", ws._remoteAddress);
+    }
+
+    /**
+     * Handle a message received from a PTZ controller over any transport; JSON
+     * messages are handled as protocol v2 requests and all other messages are
+     * parsed as text commands.
+     * @param ws : PTZ controller web-socket (or line client)
+     * @param {string} text : message received
+     */
+    protected receive(ws:any, text:string){
+        ws._alive = true;
+
+        // JSON (protocol v2) requests are handled separately from text commands
+        if(text.trim().startsWith("{")) {
+            this.request(ws, text);
+            return;
+        }
+
+        // decode the received command
+        let message:any;
+        try {
+            message = CommandParser.parse(text);
+        }
+        catch(err) {
+            this.emit("error", err.message);
+            return;
+        }
+
+        // handle AUTH:<TOKEN> command
+        if(message.type === "auth") {
+            this.login(ws, message.token);
+            return;
+        }
+
+        // handle PAIR:OPEN, PAIR:LIST, PAIR:REVOKE:<ID> and PAIR:ROLE:<ID>:<ROLE>[:<CAMERA>,...] commands (admin only)
+        if(["pairOpen", "pairList", "pairRevoke", "pairRole"].indexOf(message.type) >= 0) {
+            if(!ws._authorized || !ws._identity.permits(ControllerIdentity.ADMIN)) {
+                this.deny(ws, "pair", "Pairing management requires the 'admin' role");
+                return;
+            }
+            if(message.type === "pairOpen") {
+                send(ws, { pairing: { code: this.openPairing(), expires: new Date(this._auth.pairingExpires()) } });
+            }
+            else if(message.type === "pairList") {
+                send(ws, { controllers: this._auth.devices() });
+            }
+            else if(message.type === "pairRole") {
+                let identity = this.assign(message.id, message.role, message.cameras);
+                if(identity) send(ws, { controller: identity });
+                else send(ws, { error: "Unknown controller or role: " + text.trim() });
+            }
+            else {
+                if(this.revoke(message.id)) send(ws, { revoked: message.id });
+                else send(ws, { error: "Unknown controller: " + message.id });
+            }
+            return;
+        }
+
+        // handle PAIR:<CODE>[:<NAME>] command
+        if(message.type === "pair") {
+            let paired = this._auth.pair(message.code, message.name, ws._remoteHost || ws._remoteAddress);
+            if(!paired) {
+                this.reject(ws, "Invalid pairing code");
+                return;
+            }
+            this.emit("paired", ws._remoteAddress, paired.identity);
+            send(ws, { paired: { id: paired.identity.id, name: paired.identity.name, token: paired.token } });
+            this.login(ws, paired.token);
+            return;
+        }
+
+        // all other commands require an authorized controller
+        if(!ws._authorized) {
+            this.reject(ws, "Authentication required");
+            return;
+        }
+
+        // text commands are executed the same way as the equivalent JSON requests; errors
+        // are sent back to the controller as { error, command } messages (no reply callback)
+        this.execute(ws, message);
+    }
+
+    /**
+     * Handle a new TCP connection from a line based PTZ controller; the controller
+     * sends the same newline delimited commands as the web-socket controllers and
+     * the gateway sends each message back as a line of JSON text.
+     * @param {net.Socket} socket
+     */
+    protected accept(socket:net.Socket){
+        let client = lineClient("tcp:" + socket.remoteAddress + ":" + socket.remotePort,
+                                (text) => socket.write(text), () => socket.end());
+        client._remoteHost = socket.remoteAddress;
+        let buffer = "";
+
+        socket.setEncoding("utf8");
+        socket.setNoDelay(true);
+        // TCP keep-alive detects controllers that went away without closing the connection
+        socket.setKeepAlive(true, this._options["controller-heartbeat-interval"]);
+        this._lineClients.add(client);
+        this.connect(client);
+
+        socket.on('data', (chunk:string) => {
+            buffer += chunk;
+            let lines = buffer.split(/\r?\n/);
+            buffer = lines.pop();
+            if(buffer.length > MAX_LINE_LENGTH){
+                this.emit("error", "Command line too long received from PTZ controller: " + client._remoteAddress);
+                socket.destroy();
+                return;
+            }
+            lines.filter((line) => !!line.trim()).forEach((line) => {
+                if(client.readyState === WebSocket.OPEN) this.receive(client, line);
+            });
+        });
+
+        socket.on('close', () => {
+            client.readyState = WebSocket.CLOSED;
+            this._lineClients.delete(client);
+            this.disconnect(client);
+        });
+
+        socket.on('error', (err) => {
+            this.emit("error", err);
+        });
+    }
+
+    /**
+     * Handle a datagram received on the UDP port; each datagram carries one or more
+     * newline delimited commands. A session is kept for each controller address so
+     * that it only needs to authenticate (and select a camera) once; replies are sent
+     * back to the controller as datagrams, but state updates are not broadcast to UDP
+     * controllers. If no datagram is received before the remote move timeout expires,
+     * then the controller's control leases are released and any camera it left moving
+     * is stopped.
+     * @param {Buffer} data
+     * @param peer : remote address info { address, port }
+     */
+    protected datagram(data:Buffer, peer:any){
+        let key = peer.address + ":" + peer.port;
+        let client = this._datagramClients.get(key);
+        if(!client){
+            client = lineClient("udp:" + key, (text) => this._udp.send(text, peer.port, peer.address), () => {
+                clearTimeout(client._moveTimer);
+                clearTimeout(client._sessionTimer);
+                this._datagramClients.delete(key);
+                this.disconnect(client);
+            });
+            client._datagram = true;
+            client._remoteHost = peer.address;
+            this._datagramClients.set(key, client);
+            this.connect(client);
+        }
+
+        if(client._moveTimer) clearTimeout(client._moveTimer);
+        client._moveTimer = setTimeout(() => {
+            this._leases.forEach((lease, camera) => this.release(camera, client));
+            this.deadman(client);
+        }, this._options["remote-move-timeout"]);
+
+        if(client._sessionTimer) clearTimeout(client._sessionTimer);
+        client._sessionTimer = setTimeout(() => client.close(), this._options["controller-udp-session-timeout"]);
+
+        data.toString().split(/\r?\n/).filter((line) => !!line.trim()).forEach((line) => {
+            if(client.readyState === WebSocket.OPEN) this.receive(client, line);
+        });
+    }
+
+    /**
+     * Handle an OSC packet received on the OSC port; messages addressed to the OSC
+     * address prefix are executed with the OSC identity through the same dispatch
+     * path as the PTZ controller commands. Each console (by address) keeps its own
+     * camera selection; like the HTTP API and MQTT, any camera it left moving is
+     * stopped if no message is received before the remote move timeout expires.
+     * OSC cannot authenticate, so when PTZ controllers are required to authenticate
+     * only the consoles listed in 'osc-allowed-hosts' are accepted.
+     * @param {Buffer} data
+     * @param peer : remote address info { address, port }
+     */
+    protected osc(data:Buffer, peer:any){
+        let allowed:Array<string> = this._options["osc-allowed-hosts"] || [];
+        if((allowed.length > 0 || this._auth.isEnabled()) && allowed.indexOf(peer.address) < 0){
+            this.emit("error", "OSC message refused from " + peer.address + "; the host is not listed in 'osc-allowed-hosts'");
+            return;
+        }
+
+        let messages:Array<any>;
+        try {
+            messages = OscCodec.decode(data);
+        }
+        catch(err) {
+            this.emit("error", err.message + " (received from " + peer.address + ")");
+            return;
+        }
+
+        let prefix = this._options["osc-address-prefix"].replace(/\/+$/, "") + "/";
+        let key = "osc:" + peer.address;
+        messages.forEach((osc) => {
+            // messages addressed to other devices are ignored
+            if(!osc.address.startsWith(prefix)) return;
+
+            let message = oscRequest(osc.address.slice(prefix.length), osc.args);
+            if(message === null) return;
+            if(!message){
+                this.emit("error", "Unknown OSC message received from " + peer.address + ": " + osc.address);
+                return;
+            }
+
+            let client = this.remoteClient(key, key, this._oscIdentity);
+            client._camera = this._oscCameras.get(key);
+            this.execute(client, message, (err?:any) => {
+                if(err) this.feedback("/error", "ss", [message.type, (err instanceof Error) ? err.message : String(err)]);
+            });
+            this._oscCameras.set(key, client._camera);
+        });
+    }
+
+    /**
+     * Send an OSC feedback message to the configured feedback host (if any)
+     * @param {string} address : OSC address relative to the OSC address prefix
+     * @param {string} types : argument types
+     * @param {Array<any>} args : argument values
+     * @param {string} camera : (optional) camera the message reports on; it is only sent if OSC may address the camera
+     */
+    protected feedback(address:string, types:string, args:Array<any>, camera?:string){
+        if(!this._osc || !this._options["osc-feedback-host"]) return;
+        if(camera && !this._oscIdentity.canAccess(this.find(camera) || camera)) return;
+        let prefix = this._options["osc-address-prefix"].replace(/\/+$/, "");
+        this._osc.send(OscCodec.encode(prefix + address, types, args), this._options["osc-feedback-port"], this._options["osc-feedback-host"]);
+    }
+
+    /**
+     * Returns the connected PTZ controllers (web-socket and TCP); UDP controllers
+     * are only included if requested since state updates are not broadcast to them.
+     * @param {boolean} datagram : (optional) include the UDP controller sessions
+     * @return {Array<any>}
+     */
+    protected clients(datagram:boolean = false):Array<any>{
+        let clients = Array.from(this._wss.clients).concat(Array.from(this._lineClients));
+        return (datagram) ? clients.concat(Array.from(this._datagramClients.values())) : clients;
+    }
+
+    /**
+     * Handle a JSON (protocol v2) request from a PTZ controller. Each request
+     * has a 'type', an optional 'id' and the command parameters; the gateway
+     * replies with an 'ack' or 'error' message carrying the same 'id'. The
+     * protocol version must first be agreed with a 'hello' request.
+     * @param ws : PTZ controller web-socket
+     * @param {string} text : JSON encoded request
+     */
+    protected request(ws:any, text:string){
+        let message:any;
+        try {
+            message = JSON.parse(text);
+        }
+        catch(err) {
+            send(ws, { type: "error", id: null, error: "Invalid JSON request: " + err.message });
+            return;
+        }
+        if(!message || typeof message !== 'object' || !message.type){
+            send(ws, { type: "error", id: null, error: "Invalid request; a 'type' is required" });
+            return;
+        }
+
+        let type:string = String(message.type);
+        let reply = this.responder(ws, message.id);
+
+        // handle HELLO request; agree on the protocol version and (optionally) authenticate
+        if(type === "hello"){
+            ws._protocol = Math.max(1, Math.min(parseInt(message.version) || 1, PROTOCOL_VERSION));
+            if(message.token && !this.login(ws, String(message.token))) return;
+            send(ws, {
+                type: "hello",
+                id: (message.id !== undefined) ? message.id : null,
+                version: ws._protocol,
+                versions: _.range(1, PROTOCOL_VERSION + 1),
+                authenticated: ws._authorized === true
             });
+            return;
+        }
+
+        // all other JSON requests require the v2 protocol
+        if(ws._protocol < 2){
+            reply(new Error("A 'hello' handshake with protocol version 2 is required for JSON requests"));
+            return;
+        }
+
+        // handle AUTH request
+        if(type === "auth"){
+            if(this.login(ws, String(message.token || ""))) reply(null, { identity: ws._identity });
+            return;
+        }
+
+        // all other requests require an authorized controller
+        if(!ws._authorized){
+            this.reject(ws, "Authentication required");
+            return;
+        }
+
+        this.execute(ws, message, reply);
+    }
+
+    /**
+     * Execute a JSON (protocol v2) command request from an authorized PTZ controller;
+     * requests received through the HTTP API and text commands are executed the same way.
+     * @param ws : PTZ controller web-socket (or HTTP API client)
+     * @param message : request { type, camera, ...parameters }
+     * @param reply : (optional) callback invoked with the command error or result
+     */
+    protected execute(ws:any, message:any, reply?:(err?:any, result?:any)=>void){
+        let type:string = String(message.type);
+
+        // a request may address a specific camera; otherwise the controller's selected camera is used
+        let camera:string = ws._camera;
+        if(message.camera && type !== "camera"){
+            let found = this.find(String(message.camera));
+            camera = (found) ? found.uuid : String(message.camera);
+        }
+
+        // report request errors to the reply callback (or as an error event if there is none)
+        let fail = (err:Error) => {
+            if(reply) reply(err);
+            else this.emit("error", err.message);
         };
+
+        // validate that the required request parameters are present
+        let missing = (params:Array<string>):boolean => {
+            let name = _.find(params, (param) => message[param] === undefined || message[param] === null || message[param] === "");
+            if(name) fail(failure(400, "Invalid '" + type + "' request; the '" + name + "' parameter is required"));
+            return !!name;
+        };
+
+        switch(type){
+            case "control":
+                if(missing(["action"])) return;
+                if(message.action === "take") this.takeover(ws, camera, reply);
+                else if(message.action === "release") this.relinquish(ws, camera, reply);
+                else fail(failure(400, "Invalid 'control' request; the 'action' must be 'take' or 'release'"));
+                return;
+            case "camera":
+                if(missing(["camera"])) return;
+                this.select(ws, String(message.camera), reply);
+                return;
+            case "stop":
+            case "home":
+            case "setHome":
+            case "tourStop":
+                this.dispatch(ws, type, [camera], reply);
+                return;
+            case "preset":
+                if(missing(["preset"])) return;
+                this.dispatch(ws, type, [String(message.preset), camera], reply);
+                return;
+            case "setPreset":
+                if(missing(["name"])) return;
+                this.dispatch(ws, type, [String(message.name), message.token ? String(message.token) : undefined, camera], reply);
+                return;
+            case "removePreset":
+                if(missing(["token"])) return;
+                this.dispatch(ws, type, [String(message.token), camera], reply);
+                return;
+            case "ptz":
+            case "relative":
+                this.dispatch(ws, type, [parseFloat(message.pan) || 0, parseFloat(message.tilt) || 0, parseFloat(message.zoom) || 0, camera], reply);
+                return;
+            case "absolute":
+                // an omitted value keeps the current position
+                this.dispatch(ws, type, [parseFloat(message.pan), parseFloat(message.tilt), parseFloat(message.zoom), camera], reply);
+                return;
+            case "pan":
+            case "tilt":
+            case "zoom":
+                if(missing([type])) return;
+                this.dispatch(ws, type, [parseFloat(message[type]), camera], reply);
+                return;
+            case "nudge":
+                if(missing(["direction", "duration"])) return;
+                this.dispatch(ws, type, [String(message.direction).toLowerCase(), parseFloat(message.duration),
+                                         (message.speed !== undefined) ? parseFloat(message.speed) : undefined, camera], reply);
+                return;
+            case "tourStart":
+                if(missing(["tour"])) return;
+                this.dispatch(ws, type, [String(message.tour), camera], reply);
+                return;
+            case "tourSet":
+                if(missing(["tour"])) return;
+                this.dispatch(ws, type, [new PresetTour(message.tour)], reply);
+                return;
+            case "tourRemove":
+                if(missing(["tour"])) return;
+                this.dispatch(ws, type, [String(message.tour)], reply);
+                return;
+            default:
+                this.emit("error", "Unknown request received from PTZ controller: " + JSON.stringify(message));
+                if(reply) reply(failure(404, "Unknown request type: " + type));
+        }
+    }
+
+    /**
+     * Create the reply callback for a JSON (protocol v2) request; the first call
+     * sends an 'ack' (with the optional result) or an 'error' message to the
+     * PTZ controller, subsequent calls are ignored.
+     * @param ws : PTZ controller web-socket
+     * @param id : request identifier
+     * @return {(err?:any, result?:any)=>void}
+     */
+    protected responder(ws:any, id:any):(err?:any, result?:any)=>void{
+        let replied = false;
+        if(id === undefined) id = null;
+        return (err?:any, result?:any) => {
+            if(replied) return;
+            replied = true;
+            if(err)
+                send(ws, { type: "error", id: id, error: (err instanceof Error) ? err.message : String(err) });
+            else
+                send(ws, { type: "ack", id: id, result: result });
+        };
+    }
+
+    /**
+     * Serve an HTTP API request. HTTP API clients authenticate with the same tokens
+     * as the web-socket controllers and their commands are executed through the same
+     * dispatch path (roles, camera restrictions and control leases apply).
+     *
+     *   GET    /status                         active camera, cameras, status, tours and control
+     *   GET    /cameras                        cameras available for control
+     *   GET    /cameras/:uuid                  camera details, status and control
+     *   POST   /cameras/:uuid/ptz              { pan, tilt, zoom } continuous move
+     *   POST   /cameras/:uuid/absolute         { pan, tilt, zoom } absolute move
+     *   POST   /cameras/:uuid/relative         { pan, tilt, zoom } relative move
+     *   POST   /cameras/:uuid/nudge            { direction, duration, speed } timed move
+     *   POST   /cameras/:uuid/stop             stop all movement
+     *   POST   /cameras/:uuid/home             recall the home position
+     *   PUT    /cameras/:uuid/home             set the home position
+     *   POST   /cameras/:uuid/presets          { name, token } create or overwrite a preset
+     *   POST   /cameras/:uuid/presets/:token   recall a preset (#<slot> and name=<text> allowed)
+     *   DELETE /cameras/:uuid/presets/:token   remove a preset
+     *   POST   /cameras/:uuid/tours/:name      start a preset tour
+     *   DELETE /cameras/:uuid/tours            stop the running preset tour
+     *   POST   /cameras/:uuid/control          { action: take|release } camera control lease
+     *
+     * The camera uuid 'active' addresses the active camera.
+     * @param request : HTTP request
+     * @param response : HTTP response
+     */
+    protected serve(request:any, response:any){
+        let self = this;
+        let method:string = request.method;
+
+        let respond = (status:number, data:any) => {
+            response.writeHead(status, { "Content-Type": "application/json" });
+            response.end(JSON.stringify(data));
+        };
+        let reply = (err?:any, result?:any) => {
+            if(err) respond(err.status || 500, { error: (err instanceof Error) ? err.message : String(err) });
+            else respond(200, { ok: true, result: result });
+        };
+
+        // HTTP API clients must authenticate on every request (if authentication is enabled)
+        let identity:ControllerIdentity = (self._auth.isEnabled()) ? self._auth.authenticate(requestToken(request)) : self._auth.anonymous();
+        if(!identity){
+            self.emit("unauthorized", request.socket.remoteAddress, "Invalid or missing HTTP API token");
+            respond(401, { error: "Authentication required" });
+            return;
+        }
+        let client = self.remoteClient("http:" + identity.id + "@" + request.socket.remoteAddress, String(request.socket.remoteAddress), identity);
+        self.emit("request", client._remoteAddress, method, request.url);
+
+        // decode the request path; malformed escape sequences are rejected
+        let path:Array<string>;
+        try {
+            path = (request.url || "/").split("?")[0].split("/").filter((p) => !!p).map((p) => decodeURIComponent(p));
+        }
+        catch(err) {
+            return respond(400, { error: "Invalid request path" });
+        }
+
+        // GET /status
+        if(path.length === 1 && path[0] === "status"){
+            if(method !== "GET") return respond(405, { error: "Method not allowed" });
+            return respond(200, self.overview(client));
+        }
+        if(path[0] !== "cameras")
+            return respond(404, { error: "Not found" });
+
+        // GET /cameras
+        if(path.length === 1){
+            if(method !== "GET") return respond(405, { error: "Method not allowed" });
+            return respond(200, { cameras: self._cameras.filter((c) => self.accessible(client, c)).map((c) => c.toDTO()) });
+        }
+
+        // all other requests address a camera
+        let camera:Camera = (path[1].toLowerCase() === "active") ? self._camera : self.find(path[1]);
+        if(!camera)
+            return respond(404, { error: "Unknown camera: " + path[1] });
+        if(!self.accessible(client, camera))
+            return respond(403, { error: "Access to camera '" + (camera.name || camera.uuid) + "' is not permitted" });
+
+        // GET /cameras/:uuid
+        if(path.length === 2){
+            if(method !== "GET") return respond(405, { error: "Method not allowed" });
+            return respond(200, {
+                camera: camera.toDTO(),
+                status: self._status.get(camera.uuid) || null,
+                control: self.control(camera.uuid)
+            });
+        }
+
+        // map the HTTP API command onto a JSON (protocol v2) command request
+        let action = path[2].toLowerCase();
+        let message:any = null;
+        if(method === "POST" && path.length === 3 && ["ptz", "absolute", "relative", "nudge", "pan", "tilt", "zoom", "stop", "home", "control"].indexOf(action) >= 0)
+            message = { type: action };
+        else if(method === "PUT" && path.length === 3 && action === "home")
+            message = { type: "setHome" };
+        else if(method === "POST" && path.length === 3 && action === "presets")
+            message = { type: "setPreset" };
+        else if(method === "POST" && path.length === 4 && action === "presets")
+            message = { type: "preset", preset: path[3] };
+        else if(method === "DELETE" && path.length === 4 && action === "presets")
+            message = { type: "removePreset", token: path[3] };
+        else if(method === "POST" && path.length === 4 && action === "tours")
+            message = { type: "tourStart", tour: path[3] };
+        else if(method === "DELETE" && path.length === 3 && action === "tours")
+            message = { type: "tourStop" };
+        if(!message)
+            return respond(404, { error: "Not found" });
+
+        readBody(request).then((body) => {
+            // the request parameters are taken from the body; the path parameters take precedence
+            message = _.extend({}, (typeof body === 'object') ? body : {}, message, { camera: camera.uuid });
+            self.execute(client, message, reply);
+        }).catch((err) => reply(err));
+    }
+
+    /**
+     * Get the client for commands received without a persistent connection (HTTP API
+     * and MQTT); the client holds control leases and continuous moves across commands.
+     * If no command is received before the remote move timeout expires, then its control
+     * leases are released and any camera it left moving is stopped.
+     * @param {string} key : unique client key
+     * @param {string} address : client address reported in events
+     * @param {ControllerIdentity} identity
+     * @return {any} remote client
+     */
+    protected remoteClient(key:string, address:string, identity:ControllerIdentity):any{
+        let client = this._remoteClients.get(key);
+        if(!client){
+            client = { _remoteAddress: address, _authorized: true, _remote: true };
+            this._remoteClients.set(key, client);
+        }
+        client._identity = identity;  // the identity is authenticated on every command
+        client._camera = undefined;
+
+        if(client._timer) clearTimeout(client._timer);
+        client._timer = setTimeout(() => {
+            this._remoteClients.delete(key);
+            this._leases.forEach((lease, camera) => this.release(camera, client));
+            this.deadman(client);
+        }, this._options["remote-move-timeout"]);
+        return client;
+    }
+
+    /**
+     * Returns the gateway status visible to a PTZ controller (or HTTP API client)
+     * @param ws : PTZ controller web-socket (or HTTP API client)
+     * @return {any} { source, cameras, status, tours, control }
+     */
+    protected overview(ws:any):any{
+        let status = [], control = [];
+        this._status.forEach((s, uuid) => { if(this.accessible(ws, uuid)) status.push(s); });
+        this._leases.forEach((lease, uuid) => { if(this.accessible(ws, uuid)) control.push(this.control(uuid)); });
+        return {
+            source: (this._camera && this.accessible(ws, this._camera)) ? this._camera.toDTO() : null,
+            cameras: this._cameras.filter((c) => this.accessible(ws, c)).map((c) => c.toDTO()),
+            status: status,
+            tours: (this.touring(ws)) ? this._tours : [],
+            control: control
+        };
+    }
+
+    /**
+     * Emit a PTZ controller command event if the controller's role permits the
+     * command and the controller may address the target camera; otherwise the
+     * command is denied and an error is sent back to the controller. The reply
+     * callback is passed to the event listeners as the last argument and must
+     * be called once the command has completed (or failed).
+     * @param ws : PTZ controller web-socket
+     * @param {string} event : command event name
+     * @param {Array<any>} args : command event arguments (excluding the client address); the target camera is last
+     * @param reply : (optional) callback invoked with the command error or result
+     * @return {boolean} true if the command event was emitted
+     */
+    protected dispatch(ws:any, event:string, args:Array<any>, reply?:(err?:any, result?:any)=>void):boolean{
+        let identity:ControllerIdentity = ws._identity;
+        let role:string = COMMAND_ROLES[event] || ControllerIdentity.ADMIN;
+        if(!identity || !identity.permits(role)){
+            this.deny(ws, event, "Command '" + event + "' requires the '" + role + "' role", reply);
+            return false;
+        }
+
+        // commands addressed to a camera are checked against the controller's camera restrictions
+        if(GLOBAL_COMMANDS.indexOf(event) < 0){
+            let target = args[args.length - 1] || (this._camera ? this._camera.uuid : null);
+            if(!this.accessible(ws, target)){
+                this.deny(ws, event, "Access to camera '" + target + "' is not permitted", reply);
+                return false;
+            }
+
+            // movement commands require control of the camera; a stop never requires (or takes)
+            // control so that any operator can halt a camera controlled by another controller
+            if(target && event !== "stop" && LEASED_COMMANDS.indexOf(event) >= 0 && !this.lease(ws, target)){
+                let holder = this._leases.get(target);
+                send(ws, { control: this.control(target) });
+                this.deny(ws, event, "Camera busy; control is held by '" + holder.name + "'", reply, 409);
+                return false;
+            }
+
+            // remember which controller started a continuous move on the camera
+            if(target) this.track(ws, event, target, args);
+        }
+
+        return this.emit(event, ws._remoteAddress, ...args, reply || (()=>{}));
+    }
+
+    /**
+     * Track the PTZ controller that started a continuous move on a camera; the
+     * move is forgotten when the camera is stopped or given any other movement.
+     * @param ws : PTZ controller web-socket
+     * @param {string} event : command event name
+     * @param {string} camera : camera source unique identifier
+     * @param {Array<any>} args : command event arguments; the target camera is last
+     */
+    protected track(ws:any, event:string, camera:string, args:Array<any>){
+        if(LEASED_COMMANDS.indexOf(event) < 0) return;
+        let moving = CONTINUOUS_COMMANDS.indexOf(event) >= 0 && args.slice(0, -1).some((value) => !!value);
+        if(moving) this._moves.set(camera, ws);
+        else this._moves.delete(camera);
+    }
+
+    /**
+     * Stop every camera with a continuous move started by a PTZ controller that
+     * has disconnected or stopped responding to the heartbeat.
+     * @param ws : PTZ controller web-socket
+     */
+    protected deadman(ws:any){
+        this._moves.forEach((mover, camera) => {
+            if(mover !== ws) return;
+            this._moves.delete(camera);
+            this.emit("deadman", ws._remoteAddress, camera);
+            this.emit("stop", ws._remoteAddress, camera, ()=>{});
+        });
+    }
+
+    /**
+     * Check (and take or extend) a PTZ controller's control lease on a camera. A
+     * controller may control a camera if no other controller holds the lease or
+     * if its priority is higher than the priority of the current lease holder.
+     * @param ws : PTZ controller web-socket
+     * @param {string} camera : camera source unique identifier
+     * @return {boolean} true if the controller may control the camera
+     */
+    protected lease(ws:any, camera:string):boolean{
+        let lease = this._leases.get(camera);
+        if(lease && lease.ws !== ws && this.priority(ws._identity) <= lease.priority)
+            return false;
+        this.grant(ws, camera);
+        return true;
+    }
+
+    /**
+     * Grant (or extend) the control lease on a camera to a PTZ controller; the
+     * lease expires after the configured lease time without further commands.
+     * A 'control' message is sent to the PTZ controllers whenever the holder changes.
+     * @param ws : PTZ controller web-socket
+     * @param {string} camera : camera source unique identifier
+     * @param {number} priority : (optional) lease priority; defaults to the controller's configured priority
+     */
+    protected grant(ws:any, camera:string, priority?:number){
+        let lease = this._leases.get(camera);
+        let changed = !lease || lease.ws !== ws;
+        if(lease) clearTimeout(lease.timer);
+
+        // an extended lease keeps its priority (which may have been raised by a takeover)
+        if(typeof priority !== 'number')
+            priority = (changed) ? this.priority(ws._identity) : lease.priority;
+
+        let identity:ControllerIdentity = ws._identity;
+        this._leases.set(camera, {
+            ws: ws,
+            id: identity.id,
+            name: identity.name,
+            client: ws._remoteAddress,
+            priority: priority,
+            timer: setTimeout(() => this.release(camera, ws), this._options["control-lease-time"])
+        });
+
+        if(changed){
+            this.emit("control", camera, identity, ws._remoteAddress);
+            this.sendControl(camera);
+        }
+    }
+
+    /**
+     * Release the control lease on a camera
+     * @param {string} camera : camera source unique identifier
+     * @param ws : (optional) only release the lease if it is held by this PTZ controller
+     * @return {boolean} true if the lease was released
+     */
+    protected release(camera:string, ws?:any):boolean{
+        let lease = this._leases.get(camera);
+        if(!lease || (ws && lease.ws !== ws)) return false;
+        clearTimeout(lease.timer);
+        this._leases.delete(camera);
+        this.emit("control", camera, null, null);
+        this.sendControl(camera);
+        return true;
+    }
+
+    /**
+     * Take control of a camera from its current lease holder (admin only)
+     * @param ws : PTZ controller web-socket
+     * @param {string} camera : (optional) camera source unique identifier; defaults to the active camera
+     * @param reply : (optional) callback invoked with the command error or result
+     * @return {boolean} true if control was taken
+     */
+    protected takeover(ws:any, camera?:string, reply?:(err?:any, result?:any)=>void):boolean{
+        camera = camera || (this._camera ? this._camera.uuid : null);
+        if(!ws._identity.permits(ControllerIdentity.ADMIN)){
+            this.deny(ws, "control", "Taking control of a camera requires the 'admin' role", reply);
+            return false;
+        }
+        if(!camera || !this.accessible(ws, camera)){
+            this.deny(ws, "control", "Access to camera '" + camera + "' is not permitted", reply);
+            return false;
+        }
+        // the lease taken over outranks the previous lease holder
+        let current = this._leases.get(camera);
+        let priority = this.priority(ws._identity);
+        if(current && current.ws !== ws) priority = Math.max(priority, current.priority + 1);
+        this.grant(ws, camera, priority);
+        if(reply) reply(null, this.control(camera));
+        return true;
+    }
+
+    /**
+     * Release a PTZ controller's control lease on a camera
+     * @param ws : PTZ controller web-socket
+     * @param {string} camera : (optional) camera source unique identifier; defaults to the active camera
+     * @param reply : (optional) callback invoked with the command error or result
+     * @return {boolean} true if the lease was released
+     */
+    protected relinquish(ws:any, camera?:string, reply?:(err?:any, result?:any)=>void):boolean{
+        camera = camera || (this._camera ? this._camera.uuid : null);
+        let released = this.release(camera, ws);
+        if(reply){
+            if(released) reply(null, this.control(camera));
+            else reply(failure(409, "Control of camera '" + camera + "' is not held by this controller"));
+        }
+        return released;
+    }
+
+    /**
+     * Returns the control priority configured for a PTZ controller identity (by id or name)
+     * @param {ControllerIdentity} identity
+     * @return {number}
+     */
+    protected priority(identity:ControllerIdentity):number{
+        let priorities = this._options["controller-priority"] || {};
+        if(!identity) return 0;
+        if(typeof priorities[identity.id] === 'number') return priorities[identity.id];
+        if(typeof priorities[identity.name] === 'number') return priorities[identity.name];
+        return 0;
+    }
+
+    /**
+     * Returns the control state of a camera; the holder is null if no controller holds the lease
+     * @param {string} camera : camera source unique identifier
+     * @return {any} { camera, holder, timeout }
+     */
+    protected control(camera:string):any{
+        let lease = this._leases.get(camera);
+        return {
+            camera: camera,
+            holder: (lease) ? { id: lease.id, name: lease.name, client: lease.client, priority: lease.priority } : null,
+            timeout: this._options["control-lease-time"]
+        };
+    }
+
+    /**
+     * Send the control state of a camera to each PTZ controller permitted to address it
+     * @param {string} camera : camera source unique identifier
+     */
+    protected sendControl(camera:string){
+        let self = this;
+        self.clients().forEach(function each(client) {
+            if(client._authorized && self.accessible(client, camera))
+                send(client, { control: self.control(camera) });
+        });
+    }
+
+    /**
+     * Deny a PTZ controller command; an error is sent back to the controller
+     * (via the reply callback if provided) and a 'denied' event is emitted.
+     * @param ws : PTZ controller web-socket
+     * @param {string} command
+     * @param {string} reason
+     * @param reply : (optional) callback invoked with the command error
+     * @param {number} status : (optional) HTTP status code reported to HTTP API clients
+     */
+    protected deny(ws:any, command:string, reason:string, reply?:(err?:any, result?:any)=>void, status:number = 403){
+        this.emit("denied", ws._remoteAddress, command, reason);
+        if(reply) reply(failure(status, reason));
+        else send(ws, { error: reason, command: command });
+    }
+
+    /**
+     * Address all subsequent commands from a PTZ controller to the requested
+     * camera; use 'active' to follow the active camera again.
+     * @param ws : PTZ controller web-socket
+     * @param {string} uuid : camera source unique identifier or 'active'
+     * @param reply : (optional) callback invoked with the selection error or result
+     * @return {boolean} true if the camera was selected
+     */
+    protected select(ws:any, uuid:string, reply?:(err?:any, result?:any)=>void):boolean{
+        // release the camera selection and follow the active camera again
+        if(uuid.toLowerCase() === "active"){
+            ws._camera = undefined;
+            if(this._camera && this.accessible(ws, this._camera))
+                send(ws, { source: this._camera.toDTO() });
+            this.emit("camera", ws._remoteAddress, ws._camera);
+            if(reply) reply(null, { camera: "active" });
+            return true;
+        }
+
+        // the requested camera must be available in the camera pool
+        let camera = this.find(uuid);
+        if(!camera){
+            this.emit("error", "Unknown camera requested by PTZ controller: " + uuid);
+            if(reply) reply(failure(404, "Unknown camera: " + uuid));
+            return false;
+        }
+
+        // the controller must be permitted to address the requested camera
+        if(!this.accessible(ws, camera)){
+            this.deny(ws, "camera", "Access to camera '" + (camera.name || camera.uuid) + "' is not permitted", reply);
+            return false;
+        }
+
+        // address all subsequent commands from this controller to the selected camera
+        ws._camera = camera.uuid;
+        send(ws, { source: camera.toDTO() });
+        if(this._status.has(camera.uuid))
+            send(ws, { status: this._status.get(camera.uuid) });
+        this.emit("camera", ws._remoteAddress, ws._camera);
+        if(reply) reply(null, { camera: camera.uuid });
+        return true;
+    }
+
+    /**
+     * Find a camera available for control by its unique identifier (case insensitive)
+     * @param {string} uuid
+     * @return {Camera} the camera or undefined if not found
+     */
+    protected find(uuid:string):Camera{
+        if(!uuid) return undefined;
+        return _.find(this._cameras, (c:Camera) => c.uuid && c.uuid.toLowerCase() === uuid.toLowerCase());
+    }
+
+    /**
+     * Returns true if a PTZ controller is permitted to address a camera
+     * @param ws : PTZ controller web-socket
+     * @param {Camera|string} camera : camera or camera uuid
+     * @return {boolean}
+     */
+    protected accessible(ws:any, camera:Camera|string):boolean{
+        let identity:ControllerIdentity = ws._identity;
+        if(!identity) return false;
+        if(typeof camera === 'string')
+            camera = _.find(this._cameras, (c:Camera) => c.uuid === camera) || camera;
+        return identity.canAccess(camera);
+    }
+
+    /**
+     * Returns true if a PTZ controller may see the preset tour definitions; tours are
+     * not bound to a camera so they are only shared with controllers permitted to
+     * address at least one camera of the pool
+     * @param ws : PTZ controller web-socket
+     * @return {boolean}
+     */
+    protected touring(ws:any):boolean{
+        return this._cameras.some((c) => this.accessible(ws, c));
+    }
+
+    /**
+     * Send each authorized PTZ controller the list of cameras it is permitted to address
+     */
+    protected sendCameras(){
+        let self = this;
+        self.clients().forEach(function each(client) {
+            if(client._authorized)
+                send(client, { cameras: self._cameras.filter((c) => self.accessible(client, c)).map((c) => c.toDTO()) });
+        });
+    }
+
+    /**
+     * Assign a role and camera restriction to a paired PTZ controller device
+     * and apply it to the device's open connections.
+     * @param {string} id : device identifier
+     * @param {string} role : viewer, operator or admin
+     * @param {Array<string>} cameras : camera uuids or names (optional)
+     * @return {ControllerIdentity} the updated identity or null if the device or role is unknown
+     */
+    protected assign(id:string, role:string, cameras?:Array<string>):ControllerIdentity{
+        let identity = this._auth.assign(id, role, cameras);
+        if(!identity) return null;
+        this.clients(true).forEach((client) => {
+            if(client._identity && client._identity.id === id){
+                client._identity = identity;
+                send(client, { authenticated: identity });
+            }
+        });
+        this.sendCameras();
+        this.emit("assigned", id, identity);
+        return identity;
+    }
+
+    /**
+     * Authenticate a PTZ controller with the token provided; if the token is
+     * valid, then the controller is authorized, otherwise it is disconnected.
+     * @param ws : PTZ controller web-socket
+     * @param {string} token
+     * @return {boolean} true if the controller was authenticated
+     */
+    protected login(ws:any, token:string):boolean{
+        let identity = this._auth.authenticate(token);
+        if(!identity) {
+            this.reject(ws, "Invalid authentication token");
+            return false;
+        }
+
+        if(ws._authTimer) clearTimeout(ws._authTimer);
+        ws._authTimer = null;
+        ws._identity = identity;
+        this.emit("authenticated", ws._remoteAddress, identity);
+        send(ws, { authenticated: identity });
+        if(!ws._authorized) this.welcome(ws);
+        return true;
+    }
+
+    /**
+     * Reject a PTZ controller that failed to authenticate and disconnect it
+     * @param ws : PTZ controller web-socket
+     * @param {string} reason
+     */
+    protected reject(ws:any, reason:string){
+        this.emit("unauthorized", ws._remoteAddress, reason);
+        send(ws, { error: reason });
+        ws.close(UNAUTHORIZED, reason);
+    }
+
+    /**
+     * Revoke a paired PTZ controller device and disconnect it if it is connected
+     * @param {string} id : device identifier
+     * @return {boolean} true if the device was revoked
+     */
+    protected revoke(id:string):boolean{
+        if(!this._auth.revoke(id)) return false;
+        this.clients(true).forEach((client) => {
+            if(client._identity && client._identity.id === id)
+                this.reject(client, "Controller token revoked");
+        });
+        this.emit("revoked", id);
+        return true;
+    }
+
+    /**
+     * Authorize a PTZ controller and send it the active camera source, the
+     * cameras available for control, the camera status and the preset tours.
+     * @param ws : PTZ controller web-socket
+     */
+    protected welcome(ws:any){
+        ws._authorized = true;
+        if(this._camera && this.accessible(ws, this._camera))
+            send(ws, { source: this._camera.toDTO() });
+        if(this._cameras.length > 0)
+            send(ws, { cameras: this._cameras.filter((camera) => this.accessible(ws, camera)).map((camera) => camera.toDTO()) });
+        if(this._camera && this._status.has(this._camera.uuid) && this.accessible(ws, this._camera))
+            send(ws, { status: this._status.get(this._camera.uuid) });
+        if(this._tours.length > 0 && this.touring(ws))
+            send(ws, { tours: this._tours });
+        this._leases.forEach((lease, camera) => {
+            if(this.accessible(ws, camera)) send(ws, { control: this.control(camera) });
+        });
     }
 }
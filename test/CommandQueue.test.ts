@@ -0,0 +1,161 @@
+/*
+ **********************************************************************
+ *             __  __  ___  _  _  ___   ___ _    ___
+ *            |  \/  |/ _ \| \| |/ _ \ / __| |  | __|
+ *            | |\/| | (_) | .` | (_) | (__| |__| _|
+ *            |_|  |_|\___/|_|\_|\___/ \___|____|___|
+ *
+ * -------------------------------------------------------------------
+ *                    MONOCLE GATEWAY SERVICE
+ * -------------------------------------------------------------------
+ *
+ *  The Monocle Gateway Service is a small service that you install
+ *  and run inside your network to order to facilitate communication
+ *  between the Monocle (cloud) platform and your cameras. This
+ *  service is required if you want to implement one of the PTZ
+ *  controllers included in the Monocle project. The Monocle Gateway
+ *  Service DOES NOT communicate ANY video or audio content to the
+ *  Internet. It's sole purpose is to provide camera control
+ *  integration for PTZ cameras.
+ *
+ * -------------------------------------------------------------------
+ *        COPYRIGHT SHADEBLUE, LLC @ 2018, ALL RIGHTS RESERVED
+ * -------------------------------------------------------------------
+ *
+ **********************************************************************
+ */
+
+'use strict';
+
+import * as assert from 'assert';
+import {CommandQueue} from "../monocle";
+
+/**
+ * Returns a promise that is resolved (or rejected) by the caller
+ * @return {any} { promise, resolve, reject }
+ */
+function deferred():any {
+    let d:any = {};
+    d.promise = new Promise((resolve, reject) => {
+        d.resolve = resolve;
+        d.reject = reject;
+    });
+    return d;
+}
+
+describe("CommandQueue", () => {
+
+    let queue:CommandQueue;
+    let sent:Array<string>;
+    let blocker:any;
+
+    // queue a request that records when it is sent and resolves with its name
+    let request = (kind:string, name:string):Promise<any> => {
+        return queue.enqueue(kind, name, () => {
+            sent.push(name);
+            return Promise.resolve(name);
+        });
+    };
+
+    // keep the queue busy with a request in flight until the blocker is resolved
+    beforeEach(() => {
+        queue = new CommandQueue();
+        sent = [];
+        blocker = deferred();
+        queue.enqueue(CommandQueue.COMMAND, "busy", () => {
+            sent.push("busy");
+            return blocker.promise;
+        });
+    });
+
+    it("sends requests one at a time in order", () => {
+        let first = request(CommandQueue.COMMAND, "first");
+        let second = request(CommandQueue.COMMAND, "second");
+        assert.equal(queue.stats().pending, 2);
+        blocker.resolve();
+        return Promise.all([first, second]).then((results) => {
+            assert.deepEqual(results, ["first", "second"]);
+            assert.deepEqual(sent, ["busy", "first", "second"]);
+        });
+    });
+
+    it("only sends the newest pending velocity update", () => {
+        let results = [
+            request(CommandQueue.VELOCITY, "v1"),
+            request(CommandQueue.COMMAND, "command"),
+            request(CommandQueue.VELOCITY, "v2"),
+            request(CommandQueue.VELOCITY, "v3")
+        ];
+        blocker.resolve();
+        return Promise.all(results).then((results) => {
+            assert.deepEqual(results, [CommandQueue.SUPERSEDED, "command", CommandQueue.SUPERSEDED, "v3"]);
+            // the newest velocity update takes the place of the first one in the queue
+            assert.deepEqual(sent, ["busy", "v3", "command"]);
+            assert.equal(queue.stats().coalesced, 2);
+        });
+    });
+
+    it("shares pending status queries", () => {
+        let results = [
+            request(CommandQueue.STATUS, "status1"),
+            request(CommandQueue.STATUS, "status2")
+        ];
+        blocker.resolve();
+        return Promise.all(results).then((results) => {
+            assert.deepEqual(results, ["status1", "status1"]);
+            assert.deepEqual(sent, ["busy", "status1"]);
+        });
+    });
+
+    it("sends a stop first and discards pending moves", () => {
+        let results = [
+            request(CommandQueue.COMMAND, "presets"),
+            request(CommandQueue.MOTION, "gotoPreset"),
+            request(CommandQueue.VELOCITY, "continuousMove"),
+            request(CommandQueue.STATUS, "status"),
+            request(CommandQueue.STOP, "stop"),
+            request(CommandQueue.STOP, "stop again")
+        ];
+        blocker.resolve();
+        return Promise.all(results).then((results) => {
+            assert.deepEqual(results, ["presets", CommandQueue.SUPERSEDED, CommandQueue.SUPERSEDED, "status", "stop", "stop"]);
+            assert.deepEqual(sent, ["busy", "stop", "presets", "status"]);
+        });
+    });
+
+    it("queues moves requested after a stop", () => {
+        let stop = request(CommandQueue.STOP, "stop");
+        let move = request(CommandQueue.MOTION, "gotoPreset");
+        blocker.resolve();
+        return Promise.all([stop, move]).then((results) => {
+            assert.deepEqual(results, ["stop", "gotoPreset"]);
+            assert.deepEqual(sent, ["busy", "stop", "gotoPreset"]);
+        });
+    });
+
+    it("rejects the callers of a failed request and continues", () => {
+        let failed = queue.enqueue(CommandQueue.COMMAND, "failed", () => Promise.reject(new Error("camera error")));
+        let next = request(CommandQueue.COMMAND, "next");
+        blocker.resolve();
+        return failed.then(() => {
+            assert.fail("the request should have failed");
+        }, (err) => {
+            assert.equal(err.message, "camera error");
+            return next;
+        }).then((result) => {
+            assert.equal(result, "next");
+        });
+    });
+
+    it("rejects pending requests when cleared", () => {
+        let pending = request(CommandQueue.COMMAND, "pending");
+        queue.clear(new Error("closed"));
+        blocker.resolve();
+        return pending.then(() => {
+            assert.fail("the request should have been rejected");
+        }, (err) => {
+            assert.equal(err.message, "closed");
+            assert.deepEqual(sent, ["busy"]);
+        });
+    });
+});
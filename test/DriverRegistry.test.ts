@@ -0,0 +1,129 @@
+/*
+ **********************************************************************
+ *             __  __  ___  _  _  ___   ___ _    ___
+ *            |  \/  |/ _ \| \| |/ _ \ / __| |  | __|
+ *            | |\/| | (_) | .` | (_) | (__| |__| _|
+ *            |_|  |_|\___/|_|\_|\___/ \___|____|___|
+ *
+ * -------------------------------------------------------------------
+ *                    MONOCLE GATEWAY SERVICE
+ * -------------------------------------------------------------------
+ *
+ *  The Monocle Gateway Service is a small service that you install
+ *  and run inside your network to order to facilitate communication
+ *  between the Monocle (cloud) platform and your cameras. This
+ *  service is required if you want to implement one of the PTZ
+ *  controllers included in the Monocle project. The Monocle Gateway
+ *  Service DOES NOT communicate ANY video or audio content to the
+ *  Internet. It's sole purpose is to provide camera control
+ *  integration for PTZ cameras.
+ *
+ * -------------------------------------------------------------------
+ *        COPYRIGHT SHADEBLUE, LLC @ 2018, ALL RIGHTS RESERVED
+ * -------------------------------------------------------------------
+ *
+ **********************************************************************
+ */
+
+'use strict';
+
+import * as assert from 'assert';
+import {EventEmitter} from "events";
+import {CameraConfig, CameraController, CameraDriver, CameraPreset, CameraSource, DriverCapabilities, DriverRegistry} from "../monocle";
+
+// the requests received by the fake camera drivers (driver name and method)
+let requests:Array<string> = [];
+
+/**
+ * A camera driver that only records the requests it receives
+ */
+class FakeDriver extends EventEmitter implements CameraDriver {
+
+    public constructor(protected readonly _name:string){
+        super();
+    }
+
+    public initialize(source:CameraSource, settings:CameraConfig):Promise<any>{
+        requests.push(this._name + ":initialize");
+        return Promise.resolve({ info: { manufacturer: "Fake", model: this._name } });
+    }
+
+    public capabilities():DriverCapabilities{
+        return { ptz: true, absolute: false, relative: false, calibrated: false, status: false, presets: true, home: true };
+    }
+
+    public continuousMove(pan:number, tilt:number, zoom:number):Promise<void>{ return this.record("continuousMove"); }
+    public stop():Promise<void>{ return this.record("stop"); }
+    public absoluteMove(pan?:number, tilt?:number, zoom?:number):Promise<void>{ return this.record("absoluteMove"); }
+    public relativeMove(pan:number, tilt:number, zoom:number):Promise<void>{ return this.record("relativeMove"); }
+    public gotoHome():Promise<void>{ return this.record("gotoHome"); }
+    public setHome():Promise<void>{ return this.record("setHome"); }
+    public gotoPreset(token:string, speed:number):Promise<void>{ return this.record("gotoPreset"); }
+    public setPreset(name:string, token?:string):Promise<string>{ return this.record("setPreset").then(() => "1"); }
+    public removePreset(token:string):Promise<void>{ return this.record("removePreset"); }
+    public getStatus():Promise<any>{ return Promise.reject(new Error("not supported")); }
+    public close():void{ }
+
+    public getPresets():Promise<Array<CameraPreset>>{
+        requests.push(this._name + ":getPresets");
+        return Promise.resolve([ new CameraPreset({ token: "1", name: "Door" }) ]);
+    }
+
+    protected record(method:string):Promise<void>{
+        requests.push(this._name + ":" + method);
+        return Promise.resolve();
+    }
+}
+
+describe("DriverRegistry", () => {
+
+    before(() => {
+        DriverRegistry.register("Fake", () => new FakeDriver("fake"));
+        DriverRegistry.register("fake-configured", () => new FakeDriver("fake-configured"));
+    });
+
+    beforeEach(() => {
+        requests = [];
+    });
+
+    it("selects the driver registered for the camera source protocol", () => {
+        let source = new CameraSource({ uri: "rtsp://10.0.0.1/stream", protocol: "FAKE" });
+        assert.equal(DriverRegistry.select(source, new CameraConfig()), "fake");
+    });
+
+    it("selects the ONVIF driver for protocols without a driver", () => {
+        let source = new CameraSource({ uri: "rtsp://10.0.0.1/stream", protocol: "RTSP" });
+        assert.equal(DriverRegistry.select(source, new CameraConfig()), DriverRegistry.DEFAULT);
+    });
+
+    it("prefers the driver configured for the camera", () => {
+        let source = new CameraSource({ uri: "rtsp://10.0.0.1/stream", protocol: "FAKE" });
+        assert.equal(DriverRegistry.select(source, new CameraConfig({ driver: "Fake-Configured" })), "fake-configured");
+    });
+
+    it("rejects unknown drivers", () => {
+        assert.throws(() => DriverRegistry.create("unknown", {}), /Unknown camera driver: unknown/);
+    });
+
+    it("controls a camera through the driver for its source protocol", () => {
+        let controller = new CameraController({});
+        let source = new CameraSource({ uuid: "cam-1", uri: "rtsp://10.0.0.1/stream", protocol: "fake" });
+        return controller.initialize(source).then((camera) => {
+            assert.equal(camera.model, "fake");
+            assert.deepEqual(camera.presets.map((p:CameraPreset) => p.name), ["Door"]);
+            return controller.stop();
+        }).then(() => {
+            assert.deepEqual(requests, ["fake:initialize", "fake:getPresets", "fake:stop"]);
+            controller.close();
+        });
+    });
+
+    it("controls a camera through the driver in its per-camera settings", () => {
+        let controller = new CameraController({ cameras: [ { hostname: "10.0.0.2", driver: "fake-configured" } ] });
+        let source = new CameraSource({ uuid: "cam-2", uri: "rtsp://10.0.0.2/stream", protocol: "fake" });
+        return controller.initialize(source).then(() => controller.gotoHome()).then(() => {
+            assert.deepEqual(requests, ["fake-configured:initialize", "fake-configured:getPresets", "fake-configured:gotoHome"]);
+            controller.close();
+        });
+    });
+});
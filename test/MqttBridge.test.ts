@@ -0,0 +1,277 @@
+/*
+ **********************************************************************
+ *             __  __  ___  _  _  ___   ___ _    ___
+ *            |  \/  |/ _ \| \| |/ _ \ / __| |  | __|
+ *            | |\/| | (_) | .` | (_) | (__| |__| _|
+ *            |_|  |_|\___/|_|\_|\___/ \___|____|___|
+ *
+ * -------------------------------------------------------------------
+ *                    MONOCLE GATEWAY SERVICE
+ * -------------------------------------------------------------------
+ *
+ *  The Monocle Gateway Service is a small service that you install
+ *  and run inside your network to order to facilitate communication
+ *  between the Monocle (cloud) platform and your cameras. This
+ *  service is required if you want to implement one of the PTZ
+ *  controllers included in the Monocle project. The Monocle Gateway
+ *  Service DOES NOT communicate ANY video or audio content to the
+ *  Internet. It's sole purpose is to provide camera control
+ *  integration for PTZ cameras.
+ *
+ * -------------------------------------------------------------------
+ *        COPYRIGHT SHADEBLUE, LLC @ 2018, ALL RIGHTS RESERVED
+ * -------------------------------------------------------------------
+ *
+ **********************************************************************
+ */
+
+'use strict';
+
+import * as assert from 'assert';
+import * as net from 'net';
+import {Camera, CameraStatus, MqttBridge, PTZControllerService} from "../monocle";
+
+/**
+ * A stand-in for an MQTT (3.1.1) broker; it accepts a single client, records the
+ * messages the client publishes and publishes messages to the client.
+ */
+class Broker {
+
+    public readonly messages:Map<string, any> = new Map();
+    public subscriptions:Array<string> = [];
+    protected _server:net.Server;
+    protected _socket:net.Socket = null;
+    protected _waiting:Array<any> = [];
+
+    public listen(port:number):Promise<any>{
+        this._server = net.createServer((socket) => {
+            let buffer = Buffer.alloc(0);
+            this._socket = socket;
+            socket.on('data', (data:Buffer) => {
+                buffer = Buffer.concat([buffer, data]);
+                let packet;
+                while((packet = Broker.decode(buffer))){
+                    buffer = buffer.slice(packet.size);
+                    this.receive(packet.type, packet.flags, packet.body);
+                }
+            });
+            socket.on('error', () => {});
+        });
+        return new Promise((resolve) => this._server.listen(port, resolve));
+    }
+
+    public close(){
+        if(this._socket) this._socket.destroy();
+        this._server.close();
+    }
+
+    // resolve with the payload of the next message published to a topic (or the retained one)
+    public message(topic:string):Promise<string>{
+        if(this.messages.has(topic)) return Promise.resolve(this.messages.get(topic).payload);
+        return new Promise<string>((resolve) => this._waiting.push({ topic: topic, resolve: resolve }));
+    }
+
+    // publish a message to the client (QoS 0)
+    public publish(topic:string, payload:string, retain:boolean = false){
+        let name = Buffer.from(topic);
+        let length = Buffer.alloc(2);
+        length.writeUInt16BE(name.length, 0);
+        this.send(0x30 | (retain ? 1 : 0), Buffer.concat([length, name, Buffer.from(payload)]));
+    }
+
+    protected receive(type:number, flags:number, body:Buffer){
+        switch(type){
+            case 1: // CONNECT
+                this.send(0x20, Buffer.from([0, 0]));
+                return;
+            case 3: { // PUBLISH
+                let length = body.readUInt16BE(0);
+                let topic = body.slice(2, 2 + length).toString();
+                let offset = 2 + length;
+                let qos = (flags >> 1) & 3;
+                if(qos > 0){
+                    this.send(0x40, body.slice(offset, offset + 2));
+                    offset += 2;
+                }
+                let message = { payload: body.slice(offset).toString(), retain: !!(flags & 1) };
+                this.messages.set(topic, message);
+                this._waiting.filter((w) => w.topic === topic).forEach((w) => w.resolve(message.payload));
+                this._waiting = this._waiting.filter((w) => w.topic !== topic);
+                return;
+            }
+            case 8: { // SUBSCRIBE
+                let offset = 2, granted = [];
+                while(offset < body.length){
+                    let length = body.readUInt16BE(offset);
+                    this.subscriptions.push(body.slice(offset + 2, offset + 2 + length).toString());
+                    granted.push(0);
+                    offset += 2 + length + 1;
+                }
+                this.send(0x90, Buffer.concat([body.slice(0, 2), Buffer.from(granted)]));
+                return;
+            }
+            case 12: // PINGREQ
+                this.send(0xd0, Buffer.alloc(0));
+                return;
+        }
+    }
+
+    protected send(header:number, body:Buffer){
+        let length = [], remaining = body.length;
+        do {
+            let digit = remaining % 128;
+            remaining = Math.floor(remaining / 128);
+            length.push((remaining > 0) ? digit | 0x80 : digit);
+        } while(remaining > 0);
+        this._socket.write(Buffer.concat([Buffer.from([header].concat(length)), body]));
+    }
+
+    // decode the packet at the start of the buffer (or null if the packet is incomplete)
+    protected static decode(buffer:Buffer):any{
+        let length = 0, multiplier = 1, offset = 1;
+        do {
+            if(offset >= buffer.length) return null;
+            length += (buffer[offset] & 0x7f) * multiplier;
+            multiplier *= 128;
+        } while(buffer[offset++] & 0x80);
+        if(buffer.length < offset + length) return null;
+        return { type: buffer[0] >> 4, flags: buffer[0] & 0x0f, body: buffer.slice(offset, offset + length), size: offset + length };
+    }
+}
+
+describe("MqttBridge", function() {
+    this.timeout(5000);
+
+    let broker = new Broker();
+    let bridge = new MqttBridge({
+        "mqtt-url": "mqtt://127.0.0.1:38183",
+        "mqtt-topic-prefix": "monocle"
+    });
+
+    // commands are forwarded to the controller service (as the gateway does) with the
+    // legacy name of the remote move timeout
+    let service = new PTZControllerService({
+        "service-port": 38184,
+        "http-move-timeout": 200
+    });
+    bridge.on("command", (message:any, reply:Function) => {
+        service.submit("mqtt", bridge.identity(), message, (err:any) => reply(err));
+    });
+
+    let camera = new Camera({
+        source: { uuid: "cam-1", name: "Lobby", manufacturer: "Acme", model: "PTZ-1" },
+        presets: [ { token: "p1", name: "Front Door" } ]
+    });
+
+    // resolve with the arguments of the next controller service event
+    let command = (event:string):Promise<Array<any>> => {
+        return new Promise((resolve) => service.once(event, (...args) => resolve(args)));
+    };
+
+    before(() => {
+        return broker.listen(38183).then(() => {
+            return new Promise((resolve) => {
+                bridge.once("connected", resolve);
+                bridge.connect();
+            });
+        }).then(() => {
+            service.updateCameras([camera]);
+            service.updateActiveCamera(camera);
+            bridge.updateCameras([camera]);
+            bridge.updateActiveCamera(camera);
+        });
+    });
+
+    after(() => {
+        bridge.close();
+        service.close();
+        broker.close();
+    });
+
+    it("subscribes to the command topics", () => {
+        return broker.message("monocle/status").then((status) => {
+            assert.equal(status, "online");
+            assert.deepEqual(broker.subscriptions, ["monocle/+/+"]);
+        });
+    });
+
+    it("publishes the camera state", () => {
+        return broker.message("monocle/cam-1/availability").then((availability) => {
+            assert.equal(availability, "online");
+            return broker.message("monocle/cam-1/presets");
+        }).then((presets) => {
+            assert.deepEqual(JSON.parse(presets), [ { token: "p1", name: "Front Door" } ]);
+            assert.ok(broker.messages.get("monocle/cam-1/camera").retain);
+
+            bridge.updateStatus(new CameraStatus({ uuid: "cam-1", pan: 0.5, tilt: 0, zoom: 0, moveStatus: CameraStatus.MOVING }));
+            return broker.message("monocle/cam-1/position");
+        }).then((position) => {
+            let status = JSON.parse(position);
+            assert.equal(status.pan, 0.5);
+            assert.equal(status.moveStatus, CameraStatus.MOVING);
+        });
+    });
+
+    it("publishes Home Assistant discovery payloads", () => {
+        return broker.message("homeassistant/select/monocle_cam-1/preset/config").then((payload) => {
+            let config = JSON.parse(payload);
+            assert.equal(config.unique_id, "monocle_cam-1_preset");
+            assert.equal(config.command_topic, "monocle/cam-1/preset");
+            assert.equal(config.availability_topic, "monocle/cam-1/availability");
+            assert.deepEqual(config.options, ["Front Door"]);
+            assert.deepEqual(config.device.identifiers, ["monocle_cam-1"]);
+            return broker.message("homeassistant/button/monocle_cam-1/stop/config");
+        }).then((payload) => {
+            assert.equal(JSON.parse(payload).command_topic, "monocle/cam-1/stop");
+            return broker.message("homeassistant/sensor/monocle_cam-1/move_status/config");
+        }).then((payload) => {
+            assert.equal(JSON.parse(payload).state_topic, "monocle/cam-1/position");
+        });
+    });
+
+    it("sends commands to the camera addressed by name or uuid", () => {
+        let ptz = command("ptz");
+        broker.publish("monocle/lobby/ptz", "1:-0.5:0");
+        return ptz.then((args) => {
+            assert.deepEqual(args.slice(1, 5), [1, -0.5, 0, "cam-1"]);
+
+            let relative = command("relative");
+            broker.publish("monocle/cam-1/relative", JSON.stringify({ pan: 0.1, tilt: 0, zoom: 0 }));
+            return relative;
+        }).then((args) => {
+            assert.deepEqual(args.slice(1, 5), [0.1, 0, 0, "cam-1"]);
+        });
+    });
+
+    it("recalls presets by name on the active camera", () => {
+        let preset = command("preset");
+        broker.publish("monocle/active/preset", "Front Door");
+        return preset.then((args) => {
+            assert.equal(args[1], "p1");
+        });
+    });
+
+    it("ignores retained commands", () => {
+        let commands = 0;
+        let counter = () => commands++;
+        bridge.on("command", counter);
+
+        let error = new Promise<Error>((resolve) => bridge.once("error", resolve));
+        broker.publish("monocle/cam-1/home", "", true);
+        return error.then((err) => {
+            assert.ok(err.message.indexOf("monocle/cam-1/home") >= 0);
+            assert.equal(commands, 0);
+            bridge.removeListener("command", counter);
+        });
+    });
+
+    it("stops remote moves after the legacy 'http-move-timeout'", () => {
+        let started = Date.now();
+        let stop = command("stop");
+        broker.publish("monocle/cam-1/ptz", "0:1:0");
+        return stop.then((args) => {
+            assert.equal(args[1], "cam-1");
+            assert.ok(Date.now() - started >= 190);
+        });
+    });
+});
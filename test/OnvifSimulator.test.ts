@@ -0,0 +1,100 @@
+/*
+ **********************************************************************
+ *             __  __  ___  _  _  ___   ___ _    ___
+ *            |  \/  |/ _ \| \| |/ _ \ / __| |  | __|
+ *            | |\/| | (_) | .` | (_) | (__| |__| _|
+ *            |_|  |_|\___/|_|\_|\___/ \___|____|___|
+ *
+ * -------------------------------------------------------------------
+ *                    MONOCLE GATEWAY SERVICE
+ * -------------------------------------------------------------------
+ *
+ *  The Monocle Gateway Service is a small service that you install
+ *  and run inside your network to order to facilitate communication
+ *  between the Monocle (cloud) platform and your cameras. This
+ *  service is required if you want to implement one of the PTZ
+ *  controllers included in the Monocle project. The Monocle Gateway
+ *  Service DOES NOT communicate ANY video or audio content to the
+ *  Internet. It's sole purpose is to provide camera control
+ *  integration for PTZ cameras.
+ *
+ * -------------------------------------------------------------------
+ *        COPYRIGHT SHADEBLUE, LLC @ 2018, ALL RIGHTS RESERVED
+ * -------------------------------------------------------------------
+ *
+ **********************************************************************
+ */
+
+'use strict';
+
+import * as assert from 'assert';
+import {CameraConfig, CameraSource, OnvifDriver, OnvifSimulator} from "../monocle";
+
+describe("OnvifSimulator", function() {
+    this.timeout(5000);
+
+    // fast simulated mechanics keep the moves short
+    let simulator = new OnvifSimulator({
+        "onvif-simulator-port": 38081,
+        "simulator-pan-rate": 10,
+        "simulator-tilt-rate": 10,
+        "simulator-zoom-rate": 10
+    });
+    let driver = new OnvifDriver({});
+
+    before(() => {
+        return simulator.listen().then((xaddr) => {
+            let source = new CameraSource({ uri: "rtsp://127.0.0.1/stream" });
+            return driver.initialize(source, new CameraConfig({ "onvif-xaddr": xaddr }));
+        });
+    });
+
+    after(() => {
+        driver.close();
+        simulator.close();
+    });
+
+    // poll the camera status until the camera has stopped moving
+    let settled = ():Promise<any> => {
+        return driver.getStatus().then((status) => {
+            if(!status.moving) return status;
+            return new Promise((resolve) => setTimeout(resolve, 50)).then(() => settled());
+        });
+    };
+
+    it("is controlled by the ONVIF driver", () => {
+        let capabilities = driver.capabilities();
+        assert.ok(capabilities.ptz && capabilities.absolute && capabilities.relative && capabilities.presets);
+    });
+
+    it("moves to an absolute position", () => {
+        return driver.absoluteMove(0.5, -0.5, 0.25).then(() => settled()).then((status) => {
+            assert.ok(Math.abs(status.pan - 0.5) < 0.01);
+            assert.ok(Math.abs(status.tilt + 0.5) < 0.01);
+            assert.ok(Math.abs(status.zoom - 0.25) < 0.01);
+        });
+    });
+
+    it("stores preset names exactly as sent", () => {
+        let name = "R&amp;D <east>";
+        let token:string;
+        return driver.setPreset(name).then((t) => {
+            token = t;
+            assert.ok(simulator.camera().presets().some((p) => p.token === token && p.name === name));
+            return driver.getPresets();
+        }).then((presets) => {
+            assert.ok(presets.some((p) => p.token === token && p.name === name));
+            return driver.removePreset(token);
+        }).then(() => {
+            assert.ok(!simulator.camera().presets().some((p) => p.token === token));
+        });
+    });
+
+    it("returns a SOAP fault for an unknown preset", () => {
+        return driver.gotoPreset("unknown", 1).then(() => {
+            assert.fail("the preset recall should have failed");
+        }, (err) => {
+            assert.ok(/unknown/i.test(err.message));
+        });
+    });
+});
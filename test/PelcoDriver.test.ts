@@ -0,0 +1,143 @@
+/*
+ **********************************************************************
+ *             __  __  ___  _  _  ___   ___ _    ___
+ *            |  \/  |/ _ \| \| |/ _ \ / __| |  | __|
+ *            | |\/| | (_) | .` | (_) | (__| |__| _|
+ *            |_|  |_|\___/|_|\_|\___/ \___|____|___|
+ *
+ * -------------------------------------------------------------------
+ *                    MONOCLE GATEWAY SERVICE
+ * -------------------------------------------------------------------
+ *
+ *  The Monocle Gateway Service is a small service that you install
+ *  and run inside your network to order to facilitate communication
+ *  between the Monocle (cloud) platform and your cameras. This
+ *  service is required if you want to implement one of the PTZ
+ *  controllers included in the Monocle project. The Monocle Gateway
+ *  Service DOES NOT communicate ANY video or audio content to the
+ *  Internet. It's sole purpose is to provide camera control
+ *  integration for PTZ cameras.
+ *
+ * -------------------------------------------------------------------
+ *        COPYRIGHT SHADEBLUE, LLC @ 2018, ALL RIGHTS RESERVED
+ * -------------------------------------------------------------------
+ *
+ **********************************************************************
+ */
+
+'use strict';
+
+import * as assert from 'assert';
+import * as net from 'net';
+import {CameraConfig, CameraSource, PelcoDriver} from "../monocle";
+
+describe("PelcoDriver", () => {
+
+    let server:net.Server;
+    let port:number;
+    let received:Buffer = Buffer.alloc(0);
+    let waiting:any = null;
+
+    // resolve with the next bytes (as hex) written to the serial server
+    let frame = (length:number):Promise<string> => {
+        return new Promise<string>((resolve) => {
+            waiting = { length: length, resolve: resolve };
+            check();
+        });
+    };
+    let check = () => {
+        if(!waiting || received.length < waiting.length) return;
+        let data = received.slice(0, waiting.length);
+        received = received.slice(waiting.length);
+        let resolve = waiting.resolve;
+        waiting = null;
+        resolve(data.toString("hex"));
+    };
+
+    // the serial server records the bytes sent to the dome
+    before((done) => {
+        server = net.createServer((socket) => {
+            socket.on('data', (data:Buffer) => {
+                received = Buffer.concat([ received, data ]);
+                check();
+            });
+        });
+        server.listen(0, "127.0.0.1", () => {
+            port = server.address().port;
+            done();
+        });
+    });
+
+    after(() => {
+        server.close();
+    });
+
+    let connect = (protocol:string, address:number):Promise<PelcoDriver> => {
+        let driver = new PelcoDriver(protocol);
+        let source = new CameraSource({ uri: "rtsp://camera.local/stream" });
+        let settings = new CameraConfig({ "pelco-host": "127.0.0.1", "pelco-port": port, "pelco-address": address });
+        received = Buffer.alloc(0);
+        return driver.initialize(source, settings).then(() => driver);
+    };
+
+    it("frames Pelco-D commands with the address and checksum", () => {
+        let driver:PelcoDriver;
+        return connect(PelcoDriver.PELCO_D, 1).then((d) => {
+            driver = d;
+            return driver.continuousMove(1, -0.5, 0);
+        }).then(() => frame(7)).then((data) => {
+            // pan right at full speed, tilt down at half speed
+            assert.equal(data, "ff0100123f2072");
+            return driver.stop();
+        }).then(() => frame(7)).then((data) => {
+            assert.equal(data, "ff010000000001");
+            return driver.gotoPreset("3", 1);
+        }).then(() => frame(7)).then((data) => {
+            assert.equal(data, "ff01000700030b");
+            return driver.setPreset("Door", "12");
+        }).then((token) => {
+            assert.equal(token, "12");
+            return frame(7);
+        }).then((data) => {
+            assert.equal(data, "ff010003000c10");
+            driver.close();
+        });
+    });
+
+    it("sets the zoom speed before zooming", () => {
+        let driver:PelcoDriver;
+        return connect(PelcoDriver.PELCO_D, 5).then((d) => {
+            driver = d;
+            return driver.continuousMove(0, 0, 1);
+        }).then(() => frame(14)).then((data) => {
+            assert.equal(data, "ff05002500032d" + "ff050020000025");
+            return driver.continuousMove(0, 0, -1);
+        }).then(() => frame(7)).then((data) => {
+            // the zoom speed is unchanged, so it is not sent again
+            assert.equal(data, "ff050040000045");
+            driver.close();
+        });
+    });
+
+    it("frames Pelco-P commands with the zero based address and checksum", () => {
+        let driver:PelcoDriver;
+        return connect(PelcoDriver.PELCO_P, 2).then((d) => {
+            driver = d;
+            return driver.gotoPreset("3", 1);
+        }).then(() => frame(8)).then((data) => {
+            assert.equal(data, "a00100070003af0a");
+            return driver.stop();
+        }).then(() => frame(8)).then((data) => {
+            assert.equal(data, "a00100000000af0e");
+            driver.close();
+        });
+    });
+
+    it("rejects addresses outside of the protocol range", () => {
+        return connect(PelcoDriver.PELCO_P, 33).then(() => {
+            assert.fail("the address should have been rejected");
+        }, (err) => {
+            assert.ok(/Invalid pelco-p camera address/.test(err.message));
+        });
+    });
+});
@@ -0,0 +1,187 @@
+/*
+ **********************************************************************
+ *             __  __  ___  _  _  ___   ___ _    ___
+ *            |  \/  |/ _ \| \| |/ _ \ / __| |  | __|
+ *            | |\/| | (_) | .` | (_) | (__| |__| _|
+ *            |_|  |_|\___/|_|\_|\___/ \___|____|___|
+ *
+ * -------------------------------------------------------------------
+ *                    MONOCLE GATEWAY SERVICE
+ * -------------------------------------------------------------------
+ *
+ *  The Monocle Gateway Service is a small service that you install
+ *  and run inside your network to order to facilitate communication
+ *  between the Monocle (cloud) platform and your cameras. This
+ *  service is required if you want to implement one of the PTZ
+ *  controllers included in the Monocle project. The Monocle Gateway
+ *  Service DOES NOT communicate ANY video or audio content to the
+ *  Internet. It's sole purpose is to provide camera control
+ *  integration for PTZ cameras.
+ *
+ * -------------------------------------------------------------------
+ *        COPYRIGHT SHADEBLUE, LLC @ 2018, ALL RIGHTS RESERVED
+ * -------------------------------------------------------------------
+ *
+ **********************************************************************
+ */
+
+'use strict';
+
+import * as assert from 'assert';
+import * as dgram from 'dgram';
+import * as net from 'net';
+import {CameraConfig, CameraSource, ViscaDriver} from "../monocle";
+
+// version inquiry reply: Sony (0x0001), model 0x0511, ROM version 0x0100
+const VERSION_REPLY:string = "905000010511010002ff";
+
+describe("ViscaDriver", () => {
+
+    let source = new CameraSource({ uri: "rtsp://127.0.0.1/stream" });
+
+    describe("VISCA over IP (UDP)", () => {
+
+        let camera:dgram.Socket;
+        let port:number;
+        let requests:Array<any>;
+        let replies:any;
+
+        // the simulated camera records each request and replies to it with the same sequence number
+        before((done) => {
+            camera = dgram.createSocket('udp4');
+            camera.on('message', (data:Buffer, peer:any) => {
+                let request = {
+                    type: data.readUInt16BE(0),
+                    length: data.readUInt16BE(2),
+                    sequence: data.readUInt32BE(4),
+                    payload: data.slice(8).toString("hex")
+                };
+                requests.push(request);
+
+                let reply = (type:number, payload:string) => {
+                    let message = Buffer.from("0000000000000000" + payload, "hex");
+                    message.writeUInt16BE(type, 0);
+                    message.writeUInt16BE(message.length - 8, 2);
+                    message.writeUInt32BE(request.sequence, 4);
+                    camera.send(message, peer.port, peer.address);
+                };
+                if(request.type === 0x0200) reply(0x0201, "01");
+                else if(replies[request.payload]) reply(0x0111, replies[request.payload]);
+                else if(request.type === 0x0110) reply(0x0111, VERSION_REPLY);
+                else {
+                    // acknowledge the command, then report its completion
+                    reply(0x0111, "9041ff");
+                    reply(0x0111, "9051ff");
+                }
+            });
+            camera.bind(0, "127.0.0.1", () => {
+                port = camera.address().port;
+                done();
+            });
+        });
+
+        after(() => {
+            camera.close();
+        });
+
+        let connect = ():Promise<ViscaDriver> => {
+            let driver = new ViscaDriver({ "visca-timeout": 500 });
+            requests = [];
+            replies = {};
+            return driver.initialize(source, new CameraConfig({ "visca-port": port })).then(() => driver);
+        };
+
+        it("resets the sequence number and reads the camera version", () => {
+            let driver = new ViscaDriver({ "visca-timeout": 500 });
+            requests = [];
+            replies = {};
+            return driver.initialize(source, new CameraConfig({ "visca-port": port })).then((device) => {
+                assert.deepEqual(device.info, { manufacturer: "Sony", model: "0x0511", firmwareVersion: "0x0100" });
+                assert.deepEqual(requests, [
+                    { type: 0x0200, length: 1, sequence: 0, payload: "01" },
+                    { type: 0x0110, length: 5, sequence: 1, payload: "81090002ff" }
+                ]);
+                driver.close();
+            });
+        });
+
+        it("frames commands with the VISCA over IP header", () => {
+            let driver:ViscaDriver;
+            return connect().then((d) => {
+                driver = d;
+                requests = [];
+                return driver.continuousMove(-1, 0.5, 0);
+            }).then(() => {
+                // pan left at full speed and tilt up at half speed, then stop zooming
+                assert.deepEqual(requests, [
+                    { type: 0x0100, length: 9, sequence: 2, payload: "81010601180a0101ff" },
+                    { type: 0x0100, length: 6, sequence: 3, payload: "8101040700ff" }
+                ]);
+                requests = [];
+                return driver.gotoPreset("4", 1);
+            }).then(() => {
+                assert.deepEqual(requests, [
+                    { type: 0x0100, length: 7, sequence: 4, payload: "8101043f0204ff" }
+                ]);
+                driver.close();
+            });
+        });
+
+        it("rejects requests refused by the camera", () => {
+            let driver:ViscaDriver;
+            return connect().then((d) => {
+                driver = d;
+                replies["8101043f0204ff"] = "906002ff";
+                return driver.gotoPreset("4", 1);
+            }).then(() => {
+                assert.fail("the request should have been rejected");
+            }, (err) => {
+                assert.ok(/syntax error/.test(err.message));
+                driver.close();
+            });
+        });
+    });
+
+    describe("raw VISCA (TCP)", () => {
+
+        let server:net.Server;
+        let port:number;
+        let received:Array<string>;
+
+        // the camera splits its replies across writes; each message ends with 0xFF
+        before((done) => {
+            server = net.createServer((socket) => {
+                socket.on('data', (data:Buffer) => {
+                    received.push(data.toString("hex"));
+                    if(data[1] === 0x09) {
+                        let reply = Buffer.from(VERSION_REPLY, "hex");
+                        socket.write(reply.slice(0, 4));
+                        setTimeout(() => socket.write(reply.slice(4)), 20);
+                    }
+                    else socket.write(Buffer.from("9041ff9051ff", "hex"));
+                });
+            });
+            server.listen(0, "127.0.0.1", () => {
+                port = server.address().port;
+                done();
+            });
+        });
+
+        after(() => {
+            server.close();
+        });
+
+        it("reassembles replies and sends commands without the header", () => {
+            let driver = new ViscaDriver({ "visca-timeout": 500 });
+            received = [];
+            let settings = new CameraConfig({ "visca-transport": "tcp", "visca-port": port, "visca-address": 2 });
+            return driver.initialize(source, settings).then((device) => {
+                assert.equal(device.info.manufacturer, "Sony");
+                return driver.stop();
+            }).then(() => {
+                assert.deepEqual(received, [ "82090002ff", "8201060101010303ff", "8201040700ff" ]);
+                driver.close();
+            });
+        });
+    });
+});